@@ -18,6 +18,7 @@ def normalize_rows(
     rows: list[dict[str, Any]],
     metric: str = "acs",
     limit: int = 5,
+    sort: str = "desc",
 ) -> list[dict[str, Any]]:
     """Clean, deduplicate, sort, and truncate parsed VLR rows."""
 
@@ -36,8 +37,8 @@ def normalize_rows(
 
     unique = list(seen.values())
 
-    # Sort descending by requested metric
-    unique.sort(key=lambda r: r.get(sort_key) or 0, reverse=True)
+    # Sort by requested metric (descending unless asked otherwise)
+    unique.sort(key=lambda r: r.get(sort_key) or 0, reverse=sort != "asc")
 
     # Truncate
     return unique[:limit]
@@ -1,6 +1,13 @@
 import re
+from typing import Any
+
+from nlp_parser import AGENT_NAMES, MAP_NAMES, METRIC_KEYWORDS, REGION_ALIASES, ROLE_NAMES
 
 MAX_QUERY_LENGTH = 300
+MAX_LIMIT = 50
+
+ALLOWED_METRICS = set(METRIC_KEYWORDS.values())
+ALLOWED_SORTS = {"asc", "desc"}
 
 # Patterns that indicate injection attempts
 _DANGEROUS_PATTERNS = [
@@ -35,3 +42,57 @@ def validate_input(raw: str) -> str:
             raise ValidationError("Query is empty or malformed.")
 
     return cleaned
+
+
+# Structured filters go through the text parser's vocabularies, so "EU",
+# "europe" and "eu" all come back as the canonical "eu"
+_FILTER_VOCABULARIES: dict[str, dict[str, str]] = {
+    "agent": AGENT_NAMES,
+    "role": ROLE_NAMES,
+    "map": MAP_NAMES,
+    "region": REGION_ALIASES,
+}
+
+
+def validate_structured(query: dict[str, Any]) -> dict[str, Any]:
+    """
+    Validate a structured query object sent in place of free text.
+    Fills in the same defaults as nlp_parser.parse so both paths share a cache key,
+    and canonicalises agent/role/map/region. Timespans are checked later by url_builder.
+    """
+    metric = str(query.get("metric") or "acs").lower()
+    if metric not in ALLOWED_METRICS:
+        raise ValidationError(f"Unknown metric: {metric}")
+
+    sort = str(query.get("sort") or "desc").lower()
+    if sort not in ALLOWED_SORTS:
+        raise ValidationError(f"Unknown sort order: {sort}")
+
+    limit = query.get("limit")
+    if limit is None:
+        limit = 5
+    if isinstance(limit, bool) or not isinstance(limit, int) or limit < 1:
+        raise ValidationError("Limit must be a positive integer.")
+
+    raw_filters = query.get("filters") or {}
+    filters: dict[str, Any] = {
+        key: value for key, value in raw_filters.items() if value is not None
+    }
+
+    for key, vocabulary in _FILTER_VOCABULARIES.items():
+        if key not in filters:
+            continue
+        canonical = vocabulary.get(str(filters[key]).strip().lower())
+        if canonical is None:
+            raise ValidationError(f"Unknown {key}: {filters[key]}")
+        filters[key] = canonical
+
+    filters.setdefault("timespan", "60")
+    filters.setdefault("min_rounds", 200)
+
+    return {
+        "metric": metric,
+        "sort": sort,
+        "limit": min(limit, MAX_LIMIT),
+        "filters": filters,
+    }
@@ -2,6 +2,7 @@
 ValMuse — FastAPI backend for natural language Valorant pro stats queries.
 """
 
+import asyncio
 import logging
 from datetime import datetime, timezone
 from contextlib import asynccontextmanager
@@ -9,9 +10,10 @@ from contextlib import asynccontextmanager
 from fastapi import FastAPI, HTTPException
 from fastapi.middleware.cors import CORSMiddleware
 from pydantic import BaseModel
+from redis.exceptions import RedisError
 
 from config import settings
-from input_validator import validate_input, ValidationError
+from input_validator import validate_input, validate_structured, ValidationError
 from nlp_parser import parse
 from normalizer import normalize, make_cache_key
 from url_builder import build_url, InvalidParamError
@@ -43,8 +45,26 @@ app.add_middleware(
 )
 
 
+class QueryFilters(BaseModel):
+    agent: str | None = None
+    role: str | None = None
+    map: str | None = None
+    region: str | None = None
+    timespan: str | None = None
+    min_rounds: int | None = None
+
+
+class StructuredQuery(BaseModel):
+    """Mirror of the object nlp_parser.parse produces."""
+    metric: str = "acs"
+    sort: str = "desc"
+    limit: int = 5
+    filters: QueryFilters = QueryFilters()
+
+
 class QueryRequest(BaseModel):
-    query: str
+    # Either natural language text or an already-structured query
+    query: str | StructuredQuery
 
 
 class ErrorResponse(BaseModel):
@@ -56,17 +76,17 @@ class ErrorResponse(BaseModel):
 
 @app.post("/api/query")
 async def query_stats(req: QueryRequest):
-    """Main endpoint: natural language → VLR stats."""
+    """Main endpoint: natural language (or structured query) → VLR stats."""
 
-    # 1. Input validation
+    # 1. Input validation + 2. NLP parse (skipped for structured queries)
     try:
-        cleaned = validate_input(req.query)
+        if isinstance(req.query, StructuredQuery):
+            parsed = validate_structured(req.query.model_dump())
+        else:
+            parsed = parse(validate_input(req.query))
     except ValidationError as e:
         raise HTTPException(status_code=400, detail=e.message)
 
-    # 2. NLP parse
-    parsed = parse(cleaned)
-
     # 3. Normalize (before hashing)
     normalized = normalize(parsed)
 
@@ -91,6 +111,7 @@ async def query_stats(req: QueryRequest):
                 rows,
                 metric=parsed.get("metric", "acs"),
                 limit=parsed.get("limit", 5),
+                sort=parsed.get("sort", "desc"),
             )
 
             # Generate response
@@ -130,12 +151,13 @@ async def health():
     return {"status": "ok"}
 
 
-@app.get("/api/health/scraper")
-async def health_scraper():
-    """
-    Scraper health check — fires a known-good test query and validates results.
-    Poll this with UptimeRobot / Better Uptime.
-    """
+# Every client tab polls this, so the test scrape is shared: however many
+# callers there are, VLR sees at most one check per window
+SCRAPER_HEALTH_TTL = 60
+
+
+async def _run_scraper_check() -> dict:
+    """Fire a known-good test query; failures are returned, not raised, so they cache too."""
     test_url = f"{settings.vlr_base_url}?timespan=60"
     try:
         html = await fetch_html(test_url)
@@ -155,26 +177,141 @@ async def health_scraper():
         }
     except Exception as e:
         logger.error("Health check failed: %s", e)
+        return {
+            "status": "error",
+            "message": str(e),
+            "checked_at": datetime.now(timezone.utc).isoformat(),
+        }
+
+
+@app.get("/api/health/scraper")
+async def health_scraper():
+    """
+    Scraper health check — validates a known-good test query.
+    Poll this with UptimeRobot / Better Uptime. The outcome, good or bad,
+    is cached for SCRAPER_HEALTH_TTL seconds so pollers never drive scrapes;
+    without Redis the check runs uncached rather than failing.
+    """
+    try:
+        result = await get_or_fetch("health:scraper", _run_scraper_check, ttl=SCRAPER_HEALTH_TTL)
+    except TimeoutError:
+        result = {
+            "status": "error",
+            "message": "Health check timed out",
+            "checked_at": datetime.now(timezone.utc).isoformat(),
+        }
+    except (RedisError, OSError) as e:
+        # A cache outage isn't a scraper outage; check VLR directly instead
+        logger.warning("Health check cache unavailable, checking directly: %s", e)
+        result = await _run_scraper_check()
+    if result.get("status") != "ok":
+        raise HTTPException(status_code=503, detail=result)
+    return result
+
+
+# ------------- Player stats endpoint -----------------------------------------
+
+PLAYER_STAT_FIELDS = ("acs", "kd", "kast", "adr", "kpr", "hs_pct", "rounds")
+
+
+@app.get("/api/player/{player_id}/stats")
+async def player_stats(
+    player_id: int,
+    timespan: str = "60",
+    map: str | None = None,
+    agent: str | None = None,
+    min_rounds: int = 50,
+):
+    """
+    A single player's stat line for one timespan/map/agent split.
+    The full (untruncated) stats page is cached per URL so every player
+    looked up on the same split shares one scrape.
+    """
+    filters: dict[str, str | int] = {"timespan": timespan, "min_rounds": min_rounds}
+    if map:
+        filters["map"] = map
+    if agent:
+        filters["agent"] = agent
+
+    try:
+        url = build_url({"filters": filters})
+    except InvalidParamError as e:
+        raise HTTPException(status_code=400, detail=e.message)
+
+    async def do_scrape():
+        logger.info("Scraping: %s", url)
+        html = await fetch_html(url)
+        return parse_stats_html(html)
+
+    try:
+        rows = await get_or_fetch(f"rows:{url}", do_scrape)
+    except ScraperError as e:
+        logger.error("Scraper error: %s", e.message)
         raise HTTPException(
             status_code=503,
-            detail={
-                "status": "error",
-                "message": str(e),
-                "checked_at": datetime.now(timezone.utc).isoformat(),
-            },
+            detail="Stats temporarily unavailable. Try again in a few minutes.",
+        )
+    except TimeoutError:
+        raise HTTPException(
+            status_code=504,
+            detail="Request timed out. VLR may be slow — try again.",
         )
 
+    row = next((r for r in rows if r.get("player_id") == player_id), None)
+    return {
+        "player_id": player_id,
+        "player": row.get("player") if row else None,
+        "team": row.get("team") if row else None,
+        "split": filters,
+        "stats": {field: row.get(field) for field in PLAYER_STAT_FIELDS} if row else None,
+    }
+
 
 # ------------- Player avatar endpoint ----------------------------------------
 
-@app.get("/api/player/{player_id}/avatar")
-async def player_avatar(player_id: int):
-    """Return the avatar URL for a VLR player. Cached for 24h."""
+MAX_AVATAR_BATCH = 50
+AVATAR_CONCURRENCY = 4
+
+
+async def _cached_avatar(player_id: int) -> dict:
+    """Avatar lookup shared by the single and batch endpoints. Cached for 24h."""
     cache_key = f"avatar:{player_id}"
 
     async def do_fetch():
         url = await fetch_player_avatar(player_id)
         return {"avatar_url": url}
 
-    result = await get_or_fetch(cache_key, do_fetch, ttl=86400)
-    return result
+    return await get_or_fetch(cache_key, do_fetch, ttl=86400)
+
+
+@app.get("/api/player/{player_id}/avatar")
+async def player_avatar(player_id: int):
+    """Return the avatar URL for a VLR player. Cached for 24h."""
+    return await _cached_avatar(player_id)
+
+
+@app.get("/api/players/avatars")
+async def player_avatars(ids: str):
+    """
+    Return avatar URLs for several players at once, keyed by player id.
+    Uncached profiles are scraped at most AVATAR_CONCURRENCY at a time so
+    a long result list doesn't trip VLR's rate limiter.
+    """
+    try:
+        player_ids = list(dict.fromkeys(int(i) for i in ids.split(",") if i.strip()))
+    except ValueError:
+        raise HTTPException(status_code=400, detail="ids must be a comma-separated list of player ids.")
+    if not player_ids:
+        raise HTTPException(status_code=400, detail="ids must not be empty.")
+    if len(player_ids) > MAX_AVATAR_BATCH:
+        raise HTTPException(status_code=400, detail=f"At most {MAX_AVATAR_BATCH} ids per request.")
+
+    semaphore = asyncio.Semaphore(AVATAR_CONCURRENCY)
+
+    async def lookup(player_id: int) -> tuple[int, str | None]:
+        async with semaphore:
+            result = await _cached_avatar(player_id)
+        return player_id, result.get("avatar_url")
+
+    pairs = await asyncio.gather(*(lookup(pid) for pid in player_ids))
+    return {"avatars": {str(pid): url for pid, url in pairs}}
@@ -7,6 +7,11 @@ import hashlib
 import json
 from typing import Any
 
+# Bump when the shape of cached query responses changes, so entries written
+# by an older release aren't served to clients that validate the new shape.
+# v2: responses carry the structured `query`.
+CACHE_KEY_VERSION = "v2"
+
 
 def normalize(query: dict[str, Any]) -> dict[str, Any]:
     """Normalize a parsed query object for consistent cache keying."""
@@ -42,4 +47,4 @@ def normalize(query: dict[str, Any]) -> dict[str, Any]:
 def make_cache_key(normalized_query: dict[str, Any]) -> str:
     """Create a deterministic cache key from a normalized query object."""
     canonical = json.dumps(normalized_query, sort_keys=True, separators=(",", ":"))
-    return hashlib.sha256(canonical.encode()).hexdigest()
+    return f"{CACHE_KEY_VERSION}:{hashlib.sha256(canonical.encode()).hexdigest()}"
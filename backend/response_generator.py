@@ -94,6 +94,7 @@ def generate_response(
             "players": [],
             "metadata": metadata,
             "result_count": 0,
+            "query": query,
         }
 
     # Build headline
@@ -126,6 +127,7 @@ def generate_response(
             "kd": row.get("kd"),
             "kast": row.get("kast"),
             "adr": row.get("adr"),
+            "kpr": row.get("kpr"),
             "hs_pct": row.get("hs_pct"),
             "rounds": row.get("rounds"),
         })
@@ -141,4 +143,5 @@ def generate_response(
         "players": players,
         "metadata": metadata,
         "result_count": count,
+        "query": query,
     }
@@ -1,13 +1,24 @@
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { CommandPalette } from "@/components/CommandPalette";
 import Index from "./pages/Index";
+import PlayerProfile from "./pages/PlayerProfile";
+import Compare from "./pages/Compare";
+import Saved from "./pages/Saved";
+import Status from "./pages/Status";
 import NotFound from "./pages/NotFound";
 
 const App = () => (
   <BrowserRouter>
     <Sonner />
+    <CommandPalette />
     <Routes>
       <Route path="/" element={<Index />} />
+      <Route path="/search" element={<Index />} />
+      <Route path="/player/:id" element={<PlayerProfile />} />
+      <Route path="/compare" element={<Compare />} />
+      <Route path="/saved" element={<Saved />} />
+      <Route path="/status" element={<Status />} />
       <Route path="*" element={<NotFound />} />
     </Routes>
   </BrowserRouter>
@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Activity,
+  BarChart3,
+  Bookmark,
+  CalendarRange,
+  Clipboard,
+  Download,
+  History,
+  Moon,
+  Search,
+  Sun,
+  User,
+  Users,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { setCommandPaletteOpen, toggleCommandPalette, useCommandPalette } from "@/hooks/use-command-palette";
+import { savedQueryText, useSaved, type WatchedPlayer } from "@/hooks/use-saved";
+import { useRunSearch } from "@/hooks/use-run-search";
+import { useSearchHistory } from "@/hooks/use-search-history";
+import { toggleTheme, useTheme } from "@/hooks/use-theme";
+import type { StatsQuery } from "@/lib/api";
+import { EXPORT_COPIES, EXPORT_DOWNLOADS, copyExport, downloadExport } from "@/lib/exportTable";
+import { DEFAULT_TIMESPAN, METRICS, METRIC_LABELS, TIMESPANS, TIMESPAN_LABELS, toQueryText } from "@/lib/statsQuery";
+
+const MAX_RECENT = 8;
+
+/** Global Cmd/Ctrl+K palette for searching, navigating and acting on the current result. */
+export const CommandPalette = () => {
+  const { open, result, table } = useCommandPalette();
+  const [search, setSearch] = useState("");
+  const navigate = useNavigate();
+  const runSearch = useRunSearch();
+  const { recent, pinned } = useSearchHistory();
+  const { queries, watchlists } = useSaved();
+  const theme = useTheme();
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        toggleCommandPalette();
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const setOpen = (next: boolean) => {
+    setCommandPaletteOpen(next);
+    if (!next) setSearch("");
+  };
+
+  /** Close the palette, then run the chosen action. */
+  const select = (action: () => void) => () => {
+    setOpen(false);
+    action();
+  };
+
+  // Players in the current result first, then anyone on a watchlist
+  const players = new Map<number, WatchedPlayer>();
+  for (const p of result?.players ?? []) {
+    if (p.player_id != null) players.set(p.player_id, { player_id: p.player_id, player: p.player, team: p.team });
+  }
+  for (const p of watchlists.flatMap((w) => w.players)) {
+    if (!players.has(p.player_id)) players.set(p.player_id, p);
+  }
+
+  const query = result?.query ?? null;
+  const changeQuery = (next: StatsQuery) => runSearch(toQueryText(next), next);
+  const text = search.trim();
+
+  return (
+    <CommandDialog open={open} onOpenChange={setOpen}>
+      <CommandInput value={search} onValueChange={setSearch} placeholder="Search stats or type a command…" />
+      <CommandList>
+        <CommandEmpty>No matching commands.</CommandEmpty>
+
+        {text && (
+          <CommandGroup heading="Search">
+            <CommandItem value={`Search ${text}`} onSelect={select(() => runSearch(text))}>
+              <Search className="mr-2" />
+              Search “{text}”
+            </CommandItem>
+          </CommandGroup>
+        )}
+
+        {query && (
+          <CommandGroup heading="Current result">
+            {METRICS.filter((m) => m !== query.metric).map((metric) => (
+              <CommandItem
+                key={metric}
+                value={`Rank by ${METRIC_LABELS[metric]}`}
+                keywords={["metric", "stat", metric]}
+                onSelect={select(() => changeQuery({ ...query, metric }))}
+              >
+                <BarChart3 className="mr-2" />
+                Rank by {METRIC_LABELS[metric]}
+              </CommandItem>
+            ))}
+            {TIMESPANS.filter((t) => t !== (query.filters.timespan ?? DEFAULT_TIMESPAN)).map((timespan) => (
+              <CommandItem
+                key={timespan}
+                value={`Timespan ${TIMESPAN_LABELS[timespan]}`}
+                keywords={["days", timespan]}
+                onSelect={select(() => changeQuery({ ...query, filters: { ...query.filters, timespan } }))}
+              >
+                <CalendarRange className="mr-2" />
+                {TIMESPAN_LABELS[timespan]}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {table && (
+          <CommandGroup heading="Export">
+            {EXPORT_DOWNLOADS.map((d) => (
+              <CommandItem
+                key={d.format}
+                value={d.label}
+                keywords={["export"]}
+                onSelect={select(() => downloadExport(table, d))}
+              >
+                <Download className="mr-2" />
+                {d.label}
+              </CommandItem>
+            ))}
+            {EXPORT_COPIES.map((c) => (
+              <CommandItem
+                key={c.format}
+                value={c.label}
+                keywords={["export"]}
+                onSelect={select(() =>
+                  copyExport(table, c.format).then(
+                    () => toast.success(c.done),
+                    () => toast.error("Couldn't access the clipboard")
+                  )
+                )}
+              >
+                <Clipboard className="mr-2" />
+                {c.label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {queries.length > 0 && (
+          <CommandGroup heading="Saved queries">
+            {queries.map((saved) => (
+              <CommandItem
+                key={saved.id}
+                value={`saved:${saved.id}`}
+                keywords={[saved.name, savedQueryText(saved)]}
+                onSelect={select(() => runSearch(savedQueryText(saved), saved.query))}
+              >
+                <Bookmark className="mr-2" />
+                <span className="truncate">{saved.name}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {recent.length + pinned.length > 0 && (
+          <CommandGroup heading="History">
+            {[...pinned, ...recent.slice(0, MAX_RECENT)].map((entry) => (
+              <CommandItem
+                key={entry.id}
+                value={`history:${entry.id}`}
+                keywords={[entry.text]}
+                onSelect={select(() => runSearch(entry.text, entry.query))}
+              >
+                <History className="mr-2" />
+                <span className="truncate">{entry.text}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {players.size > 0 && (
+          <CommandGroup heading="Players">
+            {[...players.values()].map((p) => (
+              <CommandItem
+                key={p.player_id}
+                value={`player:${p.player_id}`}
+                keywords={[p.player, p.team ?? ""]}
+                onSelect={select(() =>
+                  navigate(`/player/${p.player_id}`, { state: { player: p.player, team: p.team } })
+                )}
+              >
+                <User className="mr-2" />
+                <span className="truncate">{p.player}</span>
+                {p.team && <span className="ml-2 truncate text-muted-foreground">{p.team}</span>}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        <CommandSeparator />
+        <CommandGroup heading="General">
+          <CommandItem value="Toggle theme" keywords={["dark", "light", "mode"]} onSelect={select(toggleTheme)}>
+            {theme === "light" ? <Moon className="mr-2" /> : <Sun className="mr-2" />}
+            Switch to {theme === "light" ? "dark" : "light"} mode
+          </CommandItem>
+          <CommandItem value="Go to saved" keywords={["watchlists"]} onSelect={select(() => navigate("/saved"))}>
+            <Bookmark className="mr-2" />
+            Saved queries and watchlists
+          </CommandItem>
+          <CommandItem value="Go to compare" onSelect={select(() => navigate("/compare"))}>
+            <Users className="mr-2" />
+            Compare players
+          </CommandItem>
+          <CommandItem value="Go to status" keywords={["health", "scraper"]} onSelect={select(() => navigate("/status"))}>
+            <Activity className="mr-2" />
+            Service status
+          </CommandItem>
+        </CommandGroup>
+      </CommandList>
+      <div className="border-t border-border px-3 py-2 text-xs text-muted-foreground">↵ to select · Esc to close</div>
+    </CommandDialog>
+  );
+};
@@ -0,0 +1,52 @@
+import { Link } from "react-router-dom";
+import { GitCompareArrows, X } from "lucide-react";
+import { PlayerAvatar } from "@/components/PlayerAvatar";
+import { MAX_COMPARE, useCompare } from "@/hooks/use-compare";
+import { playerKey } from "@/lib/playerStats";
+
+/** Floating bar listing players picked for comparison. */
+export const CompareTray = () => {
+  const { players, remove, clear } = useCompare();
+
+  if (players.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-30 animate-fade-up">
+      <div className="flex items-center gap-3 bg-card border border-border rounded-2xl shadow-lg pl-4 pr-2 py-2">
+        <div className="flex items-center gap-2">
+          {players.map((p) => (
+            <div key={playerKey(p)} className="flex items-center gap-1.5 bg-secondary rounded-full pl-1 pr-1.5 py-1">
+              <PlayerAvatar playerId={p.player_id} name={p.player} className="w-6 h-6" />
+              <span className="text-sm font-semibold text-foreground max-w-[7rem] truncate">{p.player}</span>
+              <button
+                type="button"
+                onClick={() => remove(p)}
+                aria-label={`Remove ${p.player} from comparison`}
+                className="text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {players.length}/{MAX_COMPARE}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={clear}
+          className="px-3 py-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          Clear
+        </button>
+        <Link
+          to="/compare"
+          className="flex items-center gap-1.5 px-4 py-2 rounded-xl font-semibold text-sm bg-primary text-primary-foreground hover:bg-primary/90 shadow-lg shadow-primary/25 transition-all duration-200"
+        >
+          <GitCompareArrows className="w-4 h-4" />
+          Compare
+        </Link>
+      </div>
+    </div>
+  );
+};
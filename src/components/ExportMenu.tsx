@@ -0,0 +1,58 @@
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  EXPORT_COPIES,
+  EXPORT_DOWNLOADS,
+  copyExport,
+  downloadExport,
+  type ExportFormat,
+  type ExportSource,
+} from "@/lib/exportTable";
+
+interface ExportMenuProps {
+  source: ExportSource;
+}
+
+/** Export the ranked list as shown — current sort and visible columns only. */
+export const ExportMenu = ({ source }: ExportMenuProps) => {
+  const copy = async (format: ExportFormat, done: string) => {
+    try {
+      await copyExport(source, format);
+      toast.success(done);
+    } catch {
+      toast.error("Couldn't access the clipboard");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors">
+        <Download className="w-4 h-4" />
+        Export
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export table</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_DOWNLOADS.map((d) => (
+          <DropdownMenuItem key={d.format} onSelect={() => downloadExport(source, d)}>
+            {d.label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        {EXPORT_COPIES.map((c) => (
+          <DropdownMenuItem key={c.format} onSelect={() => copy(c.format, c.done)}>
+            {c.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
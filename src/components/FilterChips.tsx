@@ -0,0 +1,174 @@
+import { X } from "lucide-react";
+import type { StatsQuery, StatsQueryFilters } from "@/lib/api";
+import {
+  AGENTS,
+  MAPS,
+  METRICS,
+  METRIC_LABELS,
+  REGIONS,
+  REGION_LABELS,
+  ROLES,
+  ROLE_LABELS,
+  TIMESPANS,
+  TIMESPAN_LABELS,
+} from "@/lib/statsQuery";
+import { cn } from "@/lib/utils";
+
+interface FilterChipsProps {
+  query: StatsQuery;
+  onChange: (query: StatsQuery) => void;
+  disabled?: boolean;
+}
+
+interface ChipOption {
+  value: string;
+  label: string;
+}
+
+const LIMIT_OPTIONS = [5, 10, 15, 20, 25, 50];
+const MIN_ROUNDS_OPTIONS = [50, 100, 200, 300, 500, 1000];
+
+const toOptions = (values: readonly string[], labels?: Record<string, string>): ChipOption[] =>
+  values.map((value) => ({ value, label: labels?.[value] ?? value }));
+
+// Make sure the current value is selectable even if it isn't a preset
+const withCurrent = (presets: number[], current: number): ChipOption[] =>
+  [...new Set([...presets, current])]
+    .sort((a, b) => a - b)
+    .map((n) => ({ value: String(n), label: String(n) }));
+
+export const FilterChips = ({ query, onChange, disabled = false }: FilterChipsProps) => {
+  const setFilter = <K extends keyof StatsQueryFilters>(key: K, value: StatsQueryFilters[K] | undefined) => {
+    const filters = { ...query.filters };
+    if (value === undefined) {
+      delete filters[key];
+    } else {
+      filters[key] = value;
+    }
+    onChange({ ...query, filters });
+  };
+
+  const { filters } = query;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Chip
+        label="Metric"
+        value={query.metric}
+        options={toOptions(METRICS, METRIC_LABELS)}
+        onSelect={(v) => onChange({ ...query, metric: v as StatsQuery["metric"] })}
+        disabled={disabled}
+      />
+      <Chip
+        label="Top"
+        value={String(query.limit)}
+        options={withCurrent(LIMIT_OPTIONS, query.limit)}
+        onSelect={(v) => onChange({ ...query, limit: Number(v) })}
+        disabled={disabled}
+      />
+      <Chip
+        label="Agent"
+        value={filters.agent}
+        options={toOptions(AGENTS)}
+        onSelect={(v) => setFilter("agent", v || undefined)}
+        onRemove={() => setFilter("agent", undefined)}
+        disabled={disabled}
+      />
+      <Chip
+        label="Role"
+        value={filters.role}
+        options={toOptions(ROLES, ROLE_LABELS)}
+        onSelect={(v) => setFilter("role", (v || undefined) as StatsQueryFilters["role"])}
+        onRemove={() => setFilter("role", undefined)}
+        disabled={disabled}
+      />
+      <Chip
+        label="Map"
+        value={filters.map}
+        options={toOptions(MAPS)}
+        onSelect={(v) => setFilter("map", v || undefined)}
+        onRemove={() => setFilter("map", undefined)}
+        disabled={disabled}
+      />
+      <Chip
+        label="Region"
+        value={filters.region}
+        options={toOptions(REGIONS, REGION_LABELS)}
+        onSelect={(v) => setFilter("region", (v || undefined) as StatsQueryFilters["region"])}
+        onRemove={() => setFilter("region", undefined)}
+        disabled={disabled}
+      />
+      {filters.timespan && (
+        <Chip
+          label="Timespan"
+          value={filters.timespan}
+          options={toOptions(TIMESPANS, TIMESPAN_LABELS)}
+          onSelect={(v) => setFilter("timespan", v as StatsQueryFilters["timespan"])}
+          disabled={disabled}
+        />
+      )}
+      {filters.min_rounds != null && (
+        <Chip
+          label="Min Rounds"
+          value={String(filters.min_rounds)}
+          options={withCurrent(MIN_ROUNDS_OPTIONS, filters.min_rounds)}
+          onSelect={(v) => setFilter("min_rounds", Number(v))}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+};
+
+interface ChipProps {
+  label: string;
+  value: string | undefined;
+  options: ChipOption[];
+  onSelect: (value: string) => void;
+  /** Optional filters can be cleared; required ones (metric, limit, …) cannot. */
+  onRemove?: () => void;
+  disabled?: boolean;
+}
+
+function Chip({ label, value, options, onSelect, onRemove, disabled }: ChipProps) {
+  const active = Boolean(value);
+
+  return (
+    <div
+      className={cn(
+        "inline-flex items-center gap-1.5 rounded-full border pl-3 py-1 text-sm transition-colors",
+        onRemove && active ? "pr-1.5" : "pr-3",
+        active
+          ? "border-primary/30 bg-primary/5 text-foreground"
+          : "border-dashed border-border text-muted-foreground hover:border-muted-foreground/40"
+      )}
+    >
+      <span className="text-muted-foreground">{label}:</span>
+      <select
+        aria-label={label}
+        value={value ?? ""}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={disabled}
+        className="bg-transparent font-semibold focus:outline-none cursor-pointer disabled:cursor-not-allowed"
+      >
+        {onRemove && <option value="">Any</option>}
+        {options.map((opt) => (
+          <option key={opt.value} value={opt.value}>
+            {opt.label}
+          </option>
+        ))}
+      </select>
+      {onRemove && active && (
+        <button
+          type="button"
+          onClick={onRemove}
+          disabled={disabled}
+          aria-label={`Remove ${label} filter`}
+          className="p-0.5 rounded-full hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { History, MoreHorizontal, Pin, PinOff, Trash2 } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useSearchHistory, type HistoryEntry } from "@/hooks/use-search-history";
+import { cn, formatRelativeTime } from "@/lib/utils";
+
+interface HistorySidebarProps {
+  onRun: (entry: HistoryEntry) => void;
+  activeQuery?: string;
+}
+
+/** Collapsible panel of past searches: re-run, pin, delete, or clear. */
+export const HistorySidebar = ({ onRun, activeQuery }: HistorySidebarProps) => {
+  const { entries, pinned, recent, togglePin, remove, clear } = useSearchHistory();
+
+  const renderEntry = (entry: HistoryEntry) => (
+    <SidebarMenuItem key={entry.id}>
+      <SidebarMenuButton
+        size="lg"
+        isActive={entry.text === activeQuery}
+        onClick={() => onRun(entry)}
+        title={entry.text}
+        className="flex-col items-start gap-0.5"
+      >
+        <span className="w-full truncate font-medium">{entry.text}</span>
+        <span className="w-full truncate text-xs text-muted-foreground">
+          {formatRelativeTime(entry.timestamp)} · {entry.resultCount} result{entry.resultCount === 1 ? "" : "s"}
+        </span>
+      </SidebarMenuButton>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover aria-label="Entry actions">
+            <MoreHorizontal />
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="left" align="start">
+          <DropdownMenuItem onSelect={() => togglePin(entry.id)}>
+            {entry.pinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+            {entry.pinned ? "Unpin" : "Pin"}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => remove(entry.id)} className="text-destructive focus:text-destructive">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </SidebarMenuItem>
+  );
+
+  return (
+    <Sidebar side="right" className="z-20">
+      <SidebarHeader className="flex-row items-center justify-between border-b border-sidebar-border px-4 py-3">
+        <span className="flex items-center gap-2 font-bold text-foreground">
+          <History className="w-4 h-4" />
+          History
+        </span>
+        {entries.length > 0 && (
+          <button
+            type="button"
+            onClick={clear}
+            className="text-xs text-muted-foreground hover:text-destructive transition-colors"
+          >
+            Clear all
+          </button>
+        )}
+      </SidebarHeader>
+      <SidebarContent>
+        {entries.length === 0 && (
+          <p className="px-4 py-6 text-sm text-muted-foreground">Searches you run will show up here.</p>
+        )}
+        {pinned.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Pinned</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>{pinned.map(renderEntry)}</SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+        {recent.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Recent</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>{recent.map(renderEntry)}</SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+      </SidebarContent>
+    </Sidebar>
+  );
+};
+
+/** Header button that opens and closes the history panel. */
+export const HistoryTrigger = () => {
+  const { toggleSidebar, open, openMobile, isMobile } = useSidebar();
+  const expanded = isMobile ? openMobile : open;
+
+  return (
+    <button
+      type="button"
+      onClick={toggleSidebar}
+      aria-label="Toggle search history"
+      aria-expanded={expanded}
+      className={cn(
+        "p-2 rounded-lg transition-colors duration-200",
+        "bg-secondary hover:bg-secondary/80 text-foreground"
+      )}
+    >
+      <History className="w-5 h-5" />
+    </button>
+  );
+};
@@ -0,0 +1,75 @@
+import { Link } from "react-router-dom";
+import { Bookmark, Command } from "lucide-react";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { setCommandPaletteOpen } from "@/hooks/use-command-palette";
+
+interface PageLayoutProps {
+  children: React.ReactNode;
+  /** Extra controls rendered beside the theme toggle. */
+  headerActions?: React.ReactNode;
+}
+
+/** Shared page chrome: background effects, header with logo, and footer. */
+export const PageLayout = ({ children, headerActions }: PageLayoutProps) => (
+  <div className="min-h-screen bg-background relative overflow-hidden">
+    {/* Background effects */}
+    <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_top,hsl(0_100%_60%/0.08),transparent_50%)]" />
+    <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_bottom_right,hsl(220_80%_50%/0.05),transparent_50%)]" />
+
+    {/* Grid pattern */}
+    <div
+      className="absolute inset-0 opacity-[0.02]"
+      style={{
+        backgroundImage: `linear-gradient(hsl(var(--foreground)) 1px, transparent 1px),
+                         linear-gradient(90deg, hsl(var(--foreground)) 1px, transparent 1px)`,
+        backgroundSize: "60px 60px",
+      }}
+    />
+
+    <div className="relative z-10">
+      {/* Header */}
+      <header className="pt-8 pb-4 px-6">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-primary rounded-xl flex items-center justify-center">
+              <span className="text-primary-foreground font-black text-lg">V</span>
+            </div>
+            <span className="text-xl font-bold text-foreground tracking-tight">
+              VAL<span className="text-primary">MUSE</span>
+            </span>
+          </Link>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setCommandPaletteOpen(true)}
+              aria-label="Open command palette (Ctrl+K)"
+              title="Command palette (Ctrl+K / ⌘K)"
+              className="p-2 rounded-lg transition-colors duration-200 bg-secondary hover:bg-secondary/80 text-foreground"
+            >
+              <Command className="w-5 h-5" />
+            </button>
+            <Link
+              to="/saved"
+              aria-label="Saved queries and watchlists"
+              className="p-2 rounded-lg transition-colors duration-200 bg-secondary hover:bg-secondary/80 text-foreground"
+            >
+              <Bookmark className="w-5 h-5" />
+            </Link>
+            {headerActions}
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      {children}
+
+      {/* Footer */}
+      <footer className="border-t border-border py-8 px-6">
+        <div className="max-w-7xl mx-auto flex flex-col md:flex-row items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            ValMuse v1 — Data sourced from vlr.gg/stats
+          </p>
+        </div>
+      </footer>
+    </div>
+  </div>
+);
@@ -0,0 +1,51 @@
+import { useState, useEffect } from "react";
+import { User } from "lucide-react";
+import { loadAvatar } from "@/lib/avatars";
+import { cn } from "@/lib/utils";
+
+interface PlayerAvatarProps {
+  playerId: number | null;
+  name: string;
+  className?: string;
+}
+
+/** Round VLR avatar with a placeholder icon while loading or on failure. */
+export function PlayerAvatar({ playerId, name, className }: PlayerAvatarProps) {
+  const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const [imgError, setImgError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAvatarUrl(null);
+    setImgError(false);
+    if (playerId != null) {
+      loadAvatar(playerId).then((url) => {
+        if (!cancelled) setAvatarUrl(url);
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId]);
+
+  return (
+    <div
+      className={cn(
+        "w-9 h-9 rounded-full overflow-hidden bg-muted flex-shrink-0 flex items-center justify-center",
+        className
+      )}
+    >
+      {avatarUrl && !imgError ? (
+        <img
+          src={avatarUrl}
+          alt={name}
+          className="w-full h-full object-cover"
+          onError={() => setImgError(true)}
+          loading="lazy"
+        />
+      ) : (
+        <User className="w-1/2 h-1/2 text-muted-foreground" />
+      )}
+    </div>
+  );
+}
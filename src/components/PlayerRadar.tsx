@@ -0,0 +1,82 @@
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from "recharts";
+import type { PlayerResult } from "@/lib/api";
+import { PERFORMANCE_STATS, STAT_COLUMNS, formatStat, type StatKey } from "@/lib/playerStats";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+
+interface PlayerRadarProps {
+  players: PlayerResult[];
+  /** Map a raw stat value onto the 0–100 radial scale. */
+  normalize: (key: StatKey, value: number) => number;
+  className?: string;
+}
+
+const seriesKey = (i: number) => `p${i}`;
+
+/** Overlaid radar of several players; tooltips show the raw values. */
+export function PlayerRadar({ players, normalize, className }: PlayerRadarProps) {
+  const config: ChartConfig = Object.fromEntries(
+    players.map((p, i) => [seriesKey(i), { label: p.player, color: `hsl(var(--chart-${(i % 5) + 1}))` }])
+  );
+
+  const data = PERFORMANCE_STATS.map((key) => {
+    const column = STAT_COLUMNS.find((c) => c.key === key)!;
+    const point: Record<string, string | number> = { stat: column.label };
+    players.forEach((p, i) => {
+      const value = p[key];
+      point[seriesKey(i)] = value == null ? 0 : Math.round(normalize(key, value));
+      point[`raw${i}`] = formatStat(column, value);
+    });
+    return point;
+  });
+
+  return (
+    <ChartContainer config={config} className={cn("mx-auto aspect-square max-h-[420px]", className)}>
+      <RadarChart data={data}>
+        <ChartTooltip
+          cursor={false}
+          content={
+            <ChartTooltipContent
+              formatter={(_value, name, item) => {
+                const i = Number(String(name).slice(1));
+                return (
+                  <div className="flex w-full items-center justify-between gap-3">
+                    <span className="flex items-center gap-1.5 text-muted-foreground">
+                      <span className="h-2.5 w-2.5 shrink-0 rounded-[2px]" style={{ background: item.color }} />
+                      {players[i]?.player}
+                    </span>
+                    <span className="font-mono font-medium tabular-nums text-foreground">
+                      {item.payload[`raw${i}`]}
+                    </span>
+                  </div>
+                );
+              }}
+            />
+          }
+        />
+        <PolarGrid />
+        <PolarAngleAxis dataKey="stat" className="fill-muted-foreground" />
+        <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+        {players.map((p, i) => (
+          <Radar
+            key={seriesKey(i)}
+            dataKey={seriesKey(i)}
+            stroke={`var(--color-${seriesKey(i)})`}
+            fill={`var(--color-${seriesKey(i)})`}
+            fillOpacity={0.15}
+            strokeWidth={2}
+            isAnimationActive={false}
+          />
+        ))}
+        <ChartLegend content={<ChartLegendContent />} />
+      </RadarChart>
+    </ChartContainer>
+  );
+}
@@ -1,15 +1,105 @@
-import { useState, useEffect } from "react";
-import { AlertCircle, Trophy, Award, User } from "lucide-react";
-import type { QueryResponse, PlayerResult } from "@/lib/api";
-import { fetchAvatarUrl } from "@/lib/api";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Trophy,
+  Award,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  Columns3,
+  FileWarning,
+  Hourglass,
+  Lock,
+  RotateCw,
+  Scale,
+  SearchX,
+  ServerCrash,
+  ServerOff,
+  TimerOff,
+  WifiOff,
+  type LucideIcon,
+} from "lucide-react";
+import type { ApiErrorKind, ApiRequestError, QueryResponse, PlayerResult, StatMetric, StatsQuery } from "@/lib/api";
+import { FilterChips } from "@/components/FilterChips";
+import { PlayerAvatar } from "@/components/PlayerAvatar";
+import { SaveQueryDialog } from "@/components/SaveQueryDialog";
+import { ExportMenu } from "@/components/ExportMenu";
+import { ShareImageDialog } from "@/components/ShareImageDialog";
+import { TrendTable } from "@/components/TrendTable";
+import { ResultCharts } from "@/components/ResultCharts";
+import {
+  DEFAULT_SORT,
+  STAT_COLUMNS,
+  formatStat,
+  metricStatKey,
+  playerKey,
+  nextSort,
+  sortPlayers,
+  type SortKey,
+  type SortState,
+  type StatColumn,
+  type StatKey,
+} from "@/lib/playerStats";
+import type { ExportSource } from "@/lib/exportTable";
+import { DEFAULT_MIN_ROUNDS, MAX_LIMIT, toQueryText } from "@/lib/statsQuery";
+import { isLowSample, isRateStat, reliabilityMargin, shrinkAndRerank, shrinkPlayer } from "@/lib/reliability";
+import {
+  VALUE_SCALE_LABELS,
+  formatScaled,
+  heatColor,
+  heatOf,
+  summarizePool,
+  type PoolSummary,
+  type ValueScale,
+} from "@/lib/poolStats";
+import { formatMetric, metricValue } from "@/lib/trends";
+import { useNow } from "@/hooks/use-now";
+import { useVisibleColumns } from "@/hooks/use-visible-columns";
+import { useWidePool } from "@/hooks/use-wide-pool";
+import { useCompare } from "@/hooks/use-compare";
+import { useProvidePaletteContext } from "@/hooks/use-command-palette";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn, formatRelativeTime } from "@/lib/utils";
 
 interface QueryResultProps {
   data: QueryResponse | null;
-  error: string | null;
+  /** Text the results were searched with (for exports). */
+  queryText?: string;
+  /** When `data` was fetched (for exports). */
+  fetchedAt?: number | null;
+  error: ApiRequestError | null;
   isLoading: boolean;
+  /** Set while a failed request is being retried. */
+  retryStatus?: { attempt: number; retries: number } | null;
+  /** A cached result is shown while a fresh copy loads in the background. */
+  isRefreshing?: boolean;
+  /** Re-run the same query; offered for errors that may be transient. */
+  onRetry?: () => void;
+  /** Called when a filter chip is edited; re-runs the query. */
+  onQueryChange?: (query: StatsQuery) => void;
 }
 
-export const QueryResult = ({ data, error, isLoading }: QueryResultProps) => {
+export const QueryResult = ({
+  data,
+  queryText,
+  fetchedAt,
+  error,
+  isLoading,
+  retryStatus,
+  isRefreshing = false,
+  onQueryChange,
+  onRetry,
+}: QueryResultProps) => {
   if (isLoading) {
     return (
       <div className="w-full max-w-4xl mx-auto mt-12">
@@ -20,7 +110,9 @@ export const QueryResult = ({ data, error, isLoading }: QueryResultProps) => {
             <div className="w-3 h-3 bg-primary rounded-full animate-bounce" style={{ animationDelay: "300ms" }} />
           </div>
           <p className="text-center text-muted-foreground mt-4 font-medium">
-            Searching VLR stats...
+            {retryStatus
+              ? `Retrying (${retryStatus.attempt}/${retryStatus.retries})…`
+              : "Searching VLR stats..."}
           </p>
         </div>
       </div>
@@ -28,21 +120,7 @@ export const QueryResult = ({ data, error, isLoading }: QueryResultProps) => {
   }
 
   if (error) {
-    return (
-      <div className="w-full max-w-4xl mx-auto mt-12 animate-fade-up">
-        <div className="bg-card border border-destructive/30 rounded-2xl p-8">
-          <div className="flex items-start gap-4">
-            <AlertCircle className="w-6 h-6 text-destructive flex-shrink-0 mt-0.5" />
-            <div>
-              <h3 className="text-lg font-semibold text-foreground mb-2">
-                {error.includes("understand") ? "Invalid Query" : "Something went wrong"}
-              </h3>
-              <p className="text-muted-foreground">{error}</p>
-            </div>
-          </div>
-        </div>
-      </div>
-    );
+    return <QueryError error={error} onRetry={onRetry} />;
   }
 
   if (!data) return null;
@@ -50,60 +128,538 @@ export const QueryResult = ({ data, error, isLoading }: QueryResultProps) => {
   return (
     <div className="w-full max-w-4xl mx-auto mt-12 space-y-6">
       {/* Headline */}
-      <div className="animate-fade-up bg-gradient-to-r from-primary/5 to-transparent border border-primary/20 rounded-2xl p-6">
+      <div className="animate-fade-up flex items-start justify-between gap-4 bg-gradient-to-r from-primary/5 to-transparent border border-primary/20 rounded-2xl p-6">
         <p className="text-xl font-medium text-foreground leading-relaxed">
           {data.headline}
         </p>
+        <div className="flex items-center gap-2">
+          {data.players.length > 0 && <ShareImageDialog data={data} />}
+          {data.query && <SaveQueryDialog query={data.query} />}
+        </div>
       </div>
 
-      {/* Ranked list */}
-      {data.players.length > 0 && (
-        <div className="animate-fade-up space-y-3">
-          {data.ranked_label && (
-            <h2 className="text-lg font-bold text-foreground tracking-tight">
-              {data.ranked_label}
-            </h2>
-          )}
-          <div className="bg-card border border-border rounded-2xl overflow-hidden">
-            {/* Table header */}
-            <div className="grid grid-cols-[3rem_1fr_6rem_5rem_5rem_5rem_5rem] gap-2 px-6 py-3 border-b border-border text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-              <span>#</span>
-              <span className="pl-12">Player</span>
-              <span className="text-right">{data.players[0]?.metric || "ACS"}</span>
-              <span className="text-right">K/D</span>
-              <span className="text-right">KAST</span>
-              <span className="text-right">ADR</span>
-              <span className="text-right">Rnd</span>
-            </div>
-            {/* Rows */}
-            {data.players.map((p) => (
-              <PlayerRow key={p.rank} player={p} />
-            ))}
-          </div>
+      {/* Filter chips */}
+      {data.query && onQueryChange && (
+        <div className="animate-fade-up">
+          <FilterChips query={data.query} onChange={onQueryChange} />
         </div>
       )}
 
-      {/* Filter metadata footer */}
-      {data.metadata && (
-        <div className="animate-fade-up text-sm text-muted-foreground bg-secondary/50 rounded-xl px-5 py-3">
-          {data.metadata}
-        </div>
+      {/* Ranked list, plus trend and chart views of it */}
+      {data.players.length > 0 && <ResultTabs data={data} queryText={queryText} fetchedAt={fetchedAt ?? null} />}
+
+      {/* Metadata footer (chips replace the filter summary when the query is editable) */}
+      <ResultFooter
+        metadata={data.query && onQueryChange ? null : data.metadata}
+        fetchedAt={fetchedAt ?? null}
+        isRefreshing={isRefreshing}
+      />
+    </div>
+  );
+};
+
+/** How long a player picked on a chart stays highlighted in the table. */
+const HIGHLIGHT_MS = 4000;
+
+interface ResultTabsProps {
+  data: QueryResponse;
+  queryText?: string;
+  fetchedAt: number | null;
+}
+
+function ResultTabs({ data, queryText, fetchedAt }: ResultTabsProps) {
+  const [tab, setTab] = useState("ranked");
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const metricKey = data.query ? metricStatKey(data.query.metric) : "acs";
+
+  useEffect(() => {
+    if (!highlighted) return;
+    const id = setTimeout(() => setHighlighted(null), HIGHLIGHT_MS);
+    return () => clearTimeout(id);
+  }, [highlighted]);
+
+  // Memoised so the table's export source only changes when the result does
+  const exportMeta = useMemo<RankedTableProps["exportMeta"]>(
+    () => ({
+      title: data.ranked_label ?? data.headline,
+      queryText: queryText || (data.query ? toQueryText(data.query) : ""),
+      query: data.query ?? null,
+      filters: data.metadata,
+      fetchedAt: fetchedAt ?? Date.now(),
+    }),
+    [data, queryText, fetchedAt]
+  );
+
+  // Chart points live on another tab, so jump back to the table to show the row
+  const selectPlayer = (key: string) => {
+    setTab("ranked");
+    setHighlighted(key);
+  };
+
+  return (
+    <Tabs value={tab} onValueChange={setTab} className="animate-fade-up space-y-4">
+      <TabsList>
+        <TabsTrigger value="ranked">Ranked</TabsTrigger>
+        {data.query && <TabsTrigger value="trend">Trend</TabsTrigger>}
+        <TabsTrigger value="charts">Charts</TabsTrigger>
+      </TabsList>
+      <TabsContent value="ranked">
+        <RankedTable
+          label={data.ranked_label}
+          players={data.players}
+          metricLabel={data.players[0]?.metric || "ACS"}
+          metricKey={metricKey}
+          highlighted={highlighted}
+          exportMeta={exportMeta}
+        />
+      </TabsContent>
+      {/* Inactive tabs unmount, so the other timespans are only fetched when opened */}
+      {data.query && (
+        <TabsContent value="trend">
+          <TrendTable query={data.query} />
+        </TabsContent>
+      )}
+      <TabsContent value="charts">
+        <ResultCharts
+          players={data.players}
+          title={data.ranked_label ?? data.headline}
+          metricKey={metricKey}
+          onSelectPlayer={selectPlayer}
+        />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+interface ResultFooterProps {
+  metadata: string | null;
+  fetchedAt: number | null;
+  isRefreshing: boolean;
+}
+
+function ResultFooter({ metadata, fetchedAt, isRefreshing }: ResultFooterProps) {
+  const now = useNow();
+
+  if (!metadata && fetchedAt == null) return null;
+
+  return (
+    <div className="animate-fade-up flex flex-wrap items-center justify-between gap-x-4 gap-y-1 text-sm text-muted-foreground bg-secondary/50 rounded-xl px-5 py-3">
+      {metadata && <span>{metadata}</span>}
+      {fetchedAt != null && (
+        <span className="ml-auto flex items-center gap-1.5" title={new Date(fetchedAt).toLocaleString()}>
+          {isRefreshing && <RotateCw className="w-3.5 h-3.5 animate-spin" />}
+          {isRefreshing ? "Refreshing…" : `Updated ${formatRelativeTime(fetchedAt, now)}`}
+        </span>
       )}
     </div>
   );
+}
+
+interface ErrorDisplay {
+  title: string;
+  hint: string;
+  icon: LucideIcon;
+  /** Our fault vs. the user's: query problems get a softer treatment. */
+  tone: "warning" | "destructive";
+}
+
+const ERROR_DISPLAY: Record<ApiErrorKind, ErrorDisplay> = {
+  validation: {
+    title: "Invalid query",
+    hint: "Name a stat and some filters, e.g. \"top 10 duelists by ACS in EMEA last 30 days\".",
+    icon: SearchX,
+    tone: "warning",
+  },
+  upstream: {
+    title: "Stats are unavailable",
+    hint: "We couldn't load data from vlr.gg. This usually clears up within a few minutes.",
+    icon: ServerCrash,
+    tone: "destructive",
+  },
+  timeout: {
+    title: "Request timed out",
+    hint: "vlr.gg is responding slowly. Retry, or narrow the query with a region or a shorter timespan.",
+    icon: TimerOff,
+    tone: "destructive",
+  },
+  rate_limited: {
+    title: "Slow down a little",
+    hint: "ValMuse limits how often searches can run. Wait a moment, then try again.",
+    icon: Hourglass,
+    tone: "warning",
+  },
+  not_found: {
+    title: "API not found",
+    hint: "The app may be pointed at the wrong API address (VITE_API_URL), or the server is running an older version.",
+    icon: ServerOff,
+    tone: "destructive",
+  },
+  unauthorized: {
+    title: "Access denied",
+    hint: "The API refused this app's requests. Check the server's access settings.",
+    icon: Lock,
+    tone: "destructive",
+  },
+  server: {
+    title: "Request failed",
+    hint: "The API returned an error that retrying won't fix. Reload the page; if it keeps happening, please report it.",
+    icon: ServerCrash,
+    tone: "destructive",
+  },
+  network: {
+    title: "Can't reach ValMuse",
+    hint: "Check your internet connection. If you're online, the API server may be down.",
+    icon: WifiOff,
+    tone: "destructive",
+  },
+  malformed: {
+    title: "Unexpected response",
+    hint: "The stats we received weren't in the expected format, often because VLR changed its pages. Reload; if it keeps happening, please report it.",
+    icon: FileWarning,
+    tone: "destructive",
+  },
 };
 
-function PlayerRow({ player }: { player: PlayerResult }) {
-  const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
-  const [imgError, setImgError] = useState(false);
+interface QueryErrorProps {
+  error: ApiRequestError;
+  onRetry?: () => void;
+}
+
+function QueryError({ error, onRetry }: QueryErrorProps) {
+  const { title, hint, icon: Icon, tone } = ERROR_DISPLAY[error.kind];
+
+  return (
+    <div className="w-full max-w-4xl mx-auto mt-12 animate-fade-up">
+      <div
+        className={cn(
+          "bg-card border rounded-2xl p-8",
+          tone === "warning" ? "border-primary/20" : "border-destructive/30"
+        )}
+      >
+        <div className="flex items-start gap-4">
+          <Icon
+            className={cn(
+              "w-6 h-6 flex-shrink-0 mt-0.5",
+              tone === "warning" ? "text-muted-foreground" : "text-destructive"
+            )}
+          />
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold text-foreground">{title}</h3>
+            <p className="text-muted-foreground">{error.message}</p>
+            <p className="text-sm text-muted-foreground">{hint}</p>
+            {error.retryable && onRetry && (
+              <button
+                type="button"
+                onClick={onRetry}
+                className="mt-2 flex items-center gap-1.5 px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors"
+              >
+                <RotateCw className="w-4 h-4" />
+                Try again
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface RankedTableProps {
+  label: string | null;
+  players: PlayerResult[];
+  metricLabel: string;
+  /** Field behind the highlighted metric column; null when it can't be sorted client-side. */
+  metricKey: SortKey | null;
+  exportMeta: Pick<ExportSource, "title" | "queryText" | "query" | "filters" | "fetchedAt">;
+  /** `playerKey` of a row to draw attention to, e.g. after clicking it on a chart. */
+  highlighted?: string | null;
+}
+
+function RankedTable({ label, players, metricLabel, metricKey, exportMeta, highlighted = null }: RankedTableProps) {
+  const [sort, setSort] = useState<SortState>(DEFAULT_SORT);
+  const [shrunk, setShrunk] = useState(false);
+  const [scale, setScale] = useState<ValueScale>("raw");
+  const [widePool, setWidePool] = useState(false);
+  const { visible, toggle, reset } = useVisibleColumns();
+  const compare = useCompare();
+
+  const columns = useMemo(() => STAT_COLUMNS.filter((c) => visible.includes(c.key)), [visible]);
+  // Compare | Rank | Player | queried metric | chosen stat columns
+  const gridTemplateColumns = ["1.25rem", "3rem", "minmax(8rem, 1fr)", "6rem", ...columns.map((c) => c.width)].join(" ");
+
+  const minRounds = exportMeta.query?.filters.min_rounds ?? DEFAULT_MIN_ROUNDS;
+  const direction = exportMeta.query?.sort ?? "desc";
+  const rawByKey = useMemo(() => new Map(players.map((p) => [playerKey(p), p])), [players]);
+  const metric = exportMeta.query?.metric ?? null;
+
+  // Percentiles and z-scores are taken within the rows shown, or the
+  // same query's top MAX_LIMIT when the wider pool is requested
+  const canWiden = exportMeta.query != null && exportMeta.query.limit < MAX_LIMIT;
+  const wide = useWidePool(exportMeta.query, scale !== "raw" && widePool && canWiden);
+  const poolPlayers = useMemo(() => {
+    const base = wide.players ?? players;
+    return shrunk ? base.map(shrinkPlayer) : base;
+  }, [wide.players, players, shrunk]);
+  const metricPool = useMemo(
+    () => (metric ? summarizePool(poolPlayers.map((p) => metricValue(p, metric))) : null),
+    [poolPlayers, metric]
+  );
+  const statPools = useMemo(
+    () =>
+      Object.fromEntries(STAT_COLUMNS.map((c) => [c.key, summarizePool(poolPlayers.map((p) => p[c.key]))])) as Record<
+        StatKey,
+        PoolSummary | null
+      >,
+    [poolPlayers]
+  );
+
+  // Re-sorting happens entirely client-side — no new scrape
+  const rows = useMemo(
+    () => sortPlayers(shrunk ? shrinkAndRerank(players, metricKey, direction) : players, sort),
+    [players, sort, shrunk, metricKey, direction]
+  );
+  // Exports carry scraped values only; the sample adjustment is a view, not data
+  const exportRows = useMemo(() => (shrunk ? sortPlayers(players, sort) : rows), [shrunk, players, sort, rows]);
+  const exportSource = useMemo<ExportSource>(
+    () => ({ ...exportMeta, metricLabel, sort, players: exportRows, columns }),
+    [exportMeta, metricLabel, sort, exportRows, columns]
+  );
+  useProvidePaletteContext("table", exportSource);
+
+  const header = (label: string, key: SortKey | null, align: "left" | "right" = "right") => (
+    <SortHeader
+      label={label}
+      sortKey={key}
+      sort={sort}
+      align={align}
+      onSort={(k) => setSort((prev) => nextSort(prev, k))}
+    />
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        {label && (
+          <h2 className="text-lg font-bold text-foreground tracking-tight">
+            {label}
+          </h2>
+        )}
+        <div className="ml-auto flex flex-wrap items-center justify-end gap-2">
+          <select
+            value={scale}
+            onChange={(e) => setScale(e.target.value as ValueScale)}
+            aria-label="Show values as"
+            className="bg-secondary text-secondary-foreground rounded-lg px-2 py-1.5 text-sm font-medium focus:outline-none"
+          >
+            {(Object.keys(VALUE_SCALE_LABELS) as ValueScale[]).map((s) => (
+              <option key={s} value={s}>
+                {VALUE_SCALE_LABELS[s]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShrunk((s) => !s)}
+            aria-pressed={shrunk}
+            title="Pull each stat toward the league average in proportion to how few rounds back it, then re-rank"
+            className={cn(
+              "flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors",
+              shrunk
+                ? "bg-primary/10 text-primary hover:bg-primary/15"
+                : "bg-secondary hover:bg-secondary/80 text-secondary-foreground"
+            )}
+          >
+            <Scale className="w-4 h-4" />
+            Adjust for sample
+          </button>
+          <ExportMenu source={exportSource} />
+          <ColumnPicker visible={visible} onToggle={toggle} onReset={reset} />
+        </div>
+      </div>
+      {scale !== "raw" && (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground px-1">
+          <span>
+            {VALUE_SCALE_LABELS[scale]} within{" "}
+            {wide.players ? `the top ${wide.players.length} for this query` : `these ${players.length} players`}
+            {wide.isLoading && " (loading the wider pool…)"}
+            {wide.error && ` (couldn't load the wider pool: ${wide.error.message})`}
+          </span>
+          {canWiden && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <Checkbox checked={widePool} onCheckedChange={(c) => setWidePool(c === true)} />
+              Compare against the top {MAX_LIMIT}
+            </label>
+          )}
+        </div>
+      )}
+      <div className="bg-card border border-border rounded-2xl overflow-x-auto">
+        {/* Table header */}
+        <div
+          className="grid gap-2 px-6 py-3 border-b border-border text-xs font-semibold text-muted-foreground uppercase tracking-wider"
+          style={{ gridTemplateColumns }}
+        >
+          <span className="sr-only">Compare</span>
+          {header("#", "rank", "left")}
+          <span className="pl-12">Player</span>
+          {header(metricLabel, metricKey)}
+          {columns.map((c) => (
+            <SortHeader
+              key={c.key}
+              label={c.label}
+              sortKey={c.key}
+              sort={sort}
+              align="right"
+              onSort={(k) => setSort((prev) => nextSort(prev, k))}
+            />
+          ))}
+        </div>
+        {/* Rows */}
+        {rows.map((p) => (
+          <PlayerRow
+            key={playerKey(p)}
+            player={p}
+            compared={compare.isSelected(p)}
+            compareDisabled={compare.isFull && !compare.isSelected(p)}
+            onCompareToggle={() => compare.toggle(rawByKey.get(playerKey(p)) ?? p, label)}
+            columns={columns}
+            gridTemplateColumns={gridTemplateColumns}
+            metricKey={metricKey}
+            minRounds={minRounds}
+            raw={shrunk ? rawByKey.get(playerKey(p)) : undefined}
+            highlighted={highlighted === playerKey(p)}
+            scale={scale}
+            metric={metric}
+            metricPool={metricPool}
+            statPools={statPools}
+          />
+        ))}
+        {scale !== "raw" && (
+          <PoolFooter
+            metric={metric}
+            metricPool={metricPool}
+            statPools={statPools}
+            columns={columns}
+            gridTemplateColumns={gridTemplateColumns}
+          />
+        )}
+      </div>
+      {shrunk && (
+        <p className="text-xs text-muted-foreground px-1">
+          Stats are shrunk toward league averages by round count and the list is re-ranked. Hover a value for the raw
+          number; exports and comparisons use the raw values.
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface ColumnPickerProps {
+  visible: StatKey[];
+  onToggle: (key: StatKey) => void;
+  onReset: () => void;
+}
+
+function ColumnPicker({ visible, onToggle, onReset }: ColumnPickerProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors">
+        <Columns3 className="w-4 h-4" />
+        Columns
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Visible stats</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {STAT_COLUMNS.map((c) => (
+          <DropdownMenuCheckboxItem
+            key={c.key}
+            checked={visible.includes(c.key)}
+            onCheckedChange={() => onToggle(c.key)}
+            // Keep the menu open while toggling several columns
+            onSelect={(e) => e.preventDefault()}
+          >
+            {c.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onReset}>Reset to default</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface SortHeaderProps {
+  label: string;
+  sortKey: SortKey | null;
+  sort: SortState;
+  align: "left" | "right";
+  onSort: (key: SortKey) => void;
+}
+
+function SortHeader({ label, sortKey, sort, align, onSort }: SortHeaderProps) {
+  if (sortKey == null) {
+    return <span className={cn(align === "right" && "text-right")}>{label}</span>;
+  }
+
+  const active = sort.key === sortKey;
+  const Icon = !active ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSort(sortKey)}
+      aria-sort={active ? (sort.direction === "asc" ? "ascending" : "descending") : "none"}
+      className={cn(
+        "flex items-center gap-1 uppercase tracking-wider transition-colors hover:text-foreground",
+        align === "right" && "justify-end",
+        active && "text-primary"
+      )}
+    >
+      {label}
+      <Icon className={cn("w-3 h-3 flex-shrink-0", !active && "opacity-40")} />
+    </button>
+  );
+}
+
+interface PlayerRowProps {
+  player: PlayerResult;
+  compared: boolean;
+  compareDisabled: boolean;
+  onCompareToggle: () => void;
+  columns: StatColumn[];
+  gridTemplateColumns: string;
+  metricKey: SortKey | null;
+  /** The query's min_rounds floor, for the low-sample flag. */
+  minRounds: number;
+  /** Unadjusted stats, when `player` has been shrunk toward the mean. */
+  raw?: PlayerResult;
+  highlighted: boolean;
+  scale: ValueScale;
+  metric: StatMetric | null;
+  metricPool: PoolSummary | null;
+  statPools: Record<StatKey, PoolSummary | null>;
+}
+
+function PlayerRow({
+  player,
+  compared,
+  compareDisabled,
+  onCompareToggle,
+  columns,
+  gridTemplateColumns,
+  metricKey,
+  minRounds,
+  raw,
+  highlighted,
+  scale,
+  metric,
+  metricPool,
+  statPools,
+}: PlayerRowProps) {
+  const lowSample = isLowSample(player.rounds, minRounds);
+  const rowRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    if (player.player_id != null) {
-      fetchAvatarUrl(player.player_id).then((url) => {
-        if (url) setAvatarUrl(url);
-      });
-    }
-  }, [player.player_id]);
+    if (highlighted) rowRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [highlighted]);
 
   const rankIcon = () => {
     if (player.rank === 1) return <Trophy className="w-5 h-5 text-[hsl(45,100%,60%)]" />;
@@ -113,34 +669,171 @@ function PlayerRow({ player }: { player: PlayerResult }) {
   };
 
   return (
-    <div className="grid grid-cols-[3rem_1fr_6rem_5rem_5rem_5rem_5rem] gap-2 px-6 py-4 border-b border-border/50 last:border-b-0 hover:bg-secondary/30 transition-colors">
+    <div
+      ref={rowRef}
+      className={cn(
+        "grid gap-2 px-6 py-4 border-b border-border/50 last:border-b-0 hover:bg-secondary/30 transition-colors",
+        highlighted && "bg-primary/10 hover:bg-primary/10"
+      )}
+      style={{ gridTemplateColumns }}
+    >
+      <div className="flex items-center">
+        <Checkbox
+          checked={compared}
+          onCheckedChange={onCompareToggle}
+          disabled={compareDisabled}
+          aria-label={`Compare ${player.player}`}
+          title={compareDisabled ? "Compare holds up to four players" : "Add to comparison"}
+        />
+      </div>
       <div className="flex items-center justify-center">{rankIcon()}</div>
       <div className="flex items-center gap-3 min-w-0">
-        <div className="w-9 h-9 rounded-full overflow-hidden bg-muted flex-shrink-0 flex items-center justify-center">
-          {avatarUrl && !imgError ? (
-            <img
-              src={avatarUrl}
-              alt={player.player}
-              className="w-full h-full object-cover"
-              onError={() => setImgError(true)}
-              loading="lazy"
-            />
+        <PlayerAvatar playerId={player.player_id} name={player.player} />
+        <div className="flex flex-col justify-center min-w-0">
+          {player.player_id != null ? (
+            <Link
+              to={`/player/${player.player_id}`}
+              state={{ player: player.player, team: player.team }}
+              className="font-bold text-foreground truncate hover:text-primary transition-colors"
+            >
+              {player.player}
+            </Link>
           ) : (
-            <User className="w-5 h-5 text-muted-foreground" />
+            <span className="font-bold text-foreground truncate">{player.player}</span>
           )}
-        </div>
-        <div className="flex flex-col justify-center min-w-0">
-          <span className="font-bold text-foreground truncate">{player.player}</span>
-          {player.team && (
-            <span className="text-xs text-muted-foreground truncate">{player.team}</span>
+          {(player.team || lowSample) && (
+            <span className="flex items-center gap-2 text-xs text-muted-foreground min-w-0">
+              {player.team && <span className="truncate">{player.team}</span>}
+              {lowSample && (
+                <span
+                  className="shrink-0 font-semibold uppercase tracking-wider text-[10px] text-amber-500"
+                  title={`${player.rounds} rounds, close to the ${minRounds}-round minimum`}
+                >
+                  Low sample
+                </span>
+              )}
+            </span>
           )}
         </div>
       </div>
-      <span className="text-right font-black text-primary self-center text-lg">{player.value}</span>
-      <span className="text-right text-foreground self-center">{player.kd?.toFixed(2) ?? "—"}</span>
-      <span className="text-right text-foreground self-center">{player.kast != null ? `${player.kast.toFixed(1)}%` : "—"}</span>
-      <span className="text-right text-foreground self-center">{player.adr?.toFixed(1) ?? "—"}</span>
-      <span className="text-right text-muted-foreground self-center">{player.rounds ?? "—"}</span>
+      <StatCell
+        value={player.value}
+        statKey={metricKey}
+        player={player}
+        raw={raw}
+        className="font-black text-primary text-lg"
+        scale={scale}
+        numeric={metric ? metricValue(player, metric) : null}
+        pool={metricPool}
+      />
+      {columns.map((c) => (
+        <StatCell
+          key={c.key}
+          value={formatStat(c, player[c.key])}
+          statKey={c.key}
+          player={player}
+          raw={raw}
+          className={c.muted ? (lowSample ? "text-amber-500" : "text-muted-foreground") : "text-foreground"}
+          // Round counts are sample size, not performance, so they stay raw
+          scale={c.muted ? "raw" : scale}
+          numeric={player[c.key]}
+          pool={statPools[c.key]}
+        />
+      ))}
     </div>
   );
 }
+
+interface StatCellProps {
+  /** Formatted value to show. */
+  value: string;
+  statKey: SortKey | null;
+  player: PlayerResult;
+  raw?: PlayerResult;
+  className?: string;
+  /** In a scaled view, `numeric` is shown as its position within `pool`. */
+  scale?: ValueScale;
+  numeric?: number | null;
+  pool?: PoolSummary | null;
+}
+
+/**
+ * A stat with its 95% reliability band underneath, for rate stats with a
+ * round count; or, in a scaled view, its percentile/z-score over a heat
+ * colour with the raw value underneath.
+ */
+function StatCell({ value, statKey, player, raw, className, scale = "raw", numeric = null, pool = null }: StatCellProps) {
+  if (scale !== "raw" && pool && numeric != null) {
+    return (
+      <span
+        className={cn("text-right self-center leading-tight rounded-md -mx-1.5 px-1.5 py-0.5", className)}
+        style={{ backgroundColor: heatColor(heatOf(numeric, pool, scale)) }}
+      >
+        {formatScaled(numeric, pool, scale)}
+        <span className="block text-[11px] font-normal text-muted-foreground">{value}</span>
+      </span>
+    );
+  }
+
+  const column = STAT_COLUMNS.find((c) => c.key === statKey);
+  const margin = statKey && isRateStat(statKey) ? reliabilityMargin(statKey, player.rounds) : null;
+  const stat = statKey && isRateStat(statKey) ? player[statKey] : null;
+
+  if (!column || margin == null || stat == null) {
+    return <span className={cn("text-right self-center", className)}>{value}</span>;
+  }
+
+  const rawStat = raw && isRateStat(column.key) ? raw[column.key] : null;
+  const title = [
+    `95% range ${column.format(stat - margin)}–${column.format(stat + margin)} over ${player.rounds} rounds`,
+    rawStat != null && `unadjusted ${column.format(rawStat)}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <span className={cn("text-right self-center leading-tight", className)} title={title}>
+      {value}
+      <span className="block text-[11px] font-normal text-muted-foreground">±{column.format(margin)}</span>
+    </span>
+  );
+}
+
+interface PoolFooterProps {
+  metric: StatMetric | null;
+  metricPool: PoolSummary | null;
+  statPools: Record<StatKey, PoolSummary | null>;
+  columns: StatColumn[];
+  gridTemplateColumns: string;
+}
+
+/** Pool mean and median in raw units, aligned under the table's columns. */
+function PoolFooter({ metric, metricPool, statPools, columns, gridTemplateColumns }: PoolFooterProps) {
+  const rows = [
+    { label: "Pool mean", pick: (pool: PoolSummary) => pool.mean },
+    { label: "Pool median", pick: (pool: PoolSummary) => pool.median },
+  ];
+
+  return rows.map(({ label, pick }) => (
+    <div
+      key={label}
+      className="grid gap-2 px-6 py-3 border-t border-border bg-secondary/30 text-sm text-muted-foreground"
+      style={{ gridTemplateColumns }}
+    >
+      <span className="font-semibold" style={{ gridColumn: "span 3" }}>
+        {label}
+      </span>
+      <span className="text-right font-semibold text-foreground">
+        {metric && metricPool ? formatMetric(metric, pick(metricPool)) : "—"}
+      </span>
+      {columns.map((c) => {
+        const pool = statPools[c.key];
+        return (
+          <span key={c.key} className="text-right">
+            {pool ? c.format(c.key === "rounds" ? Math.round(pick(pool)) : pick(pool)) : "—"}
+          </span>
+        );
+      })}
+    </div>
+  ));
+}
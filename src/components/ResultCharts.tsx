@@ -0,0 +1,371 @@
+import { useMemo, useRef, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, LabelList, Scatter, ScatterChart, XAxis, YAxis, ZAxis } from "recharts";
+import { ChevronDown, Download } from "lucide-react";
+import { toast } from "sonner";
+import type { PlayerResult } from "@/lib/api";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { PlayerRadar } from "@/components/PlayerRadar";
+import { useCompare } from "@/hooks/use-compare";
+import { chartToSvg, svgToPng } from "@/lib/chartExport";
+import { downloadFile, exportFileName } from "@/lib/exportTable";
+import {
+  PERFORMANCE_STATS,
+  STAT_COLUMNS,
+  formatStat,
+  playerKey,
+  type StatColumn,
+  type StatKey,
+} from "@/lib/playerStats";
+import { histogramBins, percentileOf, summarizePool, type PoolSummary } from "@/lib/poolStats";
+
+interface ResultChartsProps {
+  players: PlayerResult[];
+  /** Result title, used to name exported chart files. */
+  title: string;
+  /** Stat the query ranked by, used as the default histogram metric. */
+  metricKey: StatKey | null;
+  /** Called with a player's `playerKey` when their scatter point is clicked. */
+  onSelectPlayer: (key: string) => void;
+}
+
+interface ScatterPoint {
+  key: string;
+  player: string;
+  team: string;
+  x: number;
+  y: number;
+  color: string;
+}
+
+const columnFor = (key: StatKey): StatColumn => STAT_COLUMNS.find((c) => c.key === key)!;
+
+/** Stable colour per team name, spread around the hue wheel. */
+function teamColor(team: string): string {
+  if (!team) return "hsl(var(--muted-foreground))";
+  let hash = 0;
+  for (const ch of team.toLowerCase()) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+  // Golden-angle steps keep nearby hashes visually distinct
+  const hue = Math.round((Math.abs(hash) * 137.508) % 360);
+  return `hsl(${hue} 70% 50%)`;
+}
+
+/** Histogram of one stat, a scatter of two and a radar of chosen players, over the returned players. */
+export const ResultCharts = ({ players, title, metricKey, onSelectPlayer }: ResultChartsProps) => {
+  const [histogramKey, setHistogramKey] = useState<StatKey>(metricKey ?? "acs");
+  const [xKey, setXKey] = useState<StatKey>(metricKey && metricKey !== "kast" ? metricKey : "adr");
+  const [yKey, setYKey] = useState<StatKey>("kast");
+
+  return (
+    <div className="grid gap-6">
+      <ChartCard
+        title="Distribution"
+        controls={<StatSelect label="Stat" value={histogramKey} onChange={setHistogramKey} />}
+      >
+        <Histogram players={players} column={columnFor(histogramKey)} />
+      </ChartCard>
+      <ChartCard
+        title="Scatter"
+        controls={
+          <>
+            <StatSelect label="X" value={xKey} onChange={setXKey} />
+            <StatSelect label="Y" value={yKey} onChange={setYKey} />
+          </>
+        }
+      >
+        <PlayerScatter
+          players={players}
+          xColumn={columnFor(xKey)}
+          yColumn={columnFor(yKey)}
+          onSelectPlayer={onSelectPlayer}
+        />
+      </ChartCard>
+      <PoolRadar players={players} title={title} />
+    </div>
+  );
+};
+
+function ChartCard({ title, controls, children }: { title: string; controls: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <section className="bg-card border border-border rounded-2xl p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-bold text-foreground tracking-tight">{title}</h3>
+        <div className="flex items-center gap-3">{controls}</div>
+      </div>
+      {children}
+    </section>
+  );
+}
+
+function StatSelect({ label, value, onChange }: { label: string; value: StatKey; onChange: (key: StatKey) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as StatKey)}
+        className="bg-secondary text-secondary-foreground rounded-lg px-2 py-1 font-medium focus:outline-none"
+      >
+        {STAT_COLUMNS.map((c) => (
+          <option key={c.key} value={c.key}>
+            {c.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+const histogramConfig: ChartConfig = {
+  count: { label: "Players", color: "hsl(var(--chart-1))" },
+};
+
+function Histogram({ players, column }: { players: PlayerResult[]; column: StatColumn }) {
+  const bins = histogramBins(players, (p) => p[column.key]);
+  if (bins.length === 0) return <EmptyChart />;
+
+  const data = bins.map((bin) => ({
+    range: bins.length === 1 ? column.format(bin.from) : `${column.format(bin.from)}–${column.format(bin.to)}`,
+    count: bin.items.length,
+    names: bin.items.map((p) => p.player),
+  }));
+
+  return (
+    <ChartContainer config={histogramConfig} className="aspect-auto h-64 w-full">
+      <BarChart data={data} margin={{ top: 8, right: 8, bottom: 8, left: -16 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="range" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+        <ChartTooltip
+          cursor={false}
+          content={({ active, payload }) => {
+            const point = active ? (payload?.[0]?.payload as (typeof data)[number] | undefined) : undefined;
+            if (!point) return null;
+            return (
+              <TooltipBox>
+                <div className="font-medium text-foreground">
+                  {column.label} {point.range}
+                </div>
+                <div className="text-muted-foreground">
+                  {point.count} {point.count === 1 ? "player" : "players"}
+                  {point.names.length > 0 && `: ${point.names.slice(0, 8).join(", ")}${point.names.length > 8 ? "…" : ""}`}
+                </div>
+              </TooltipBox>
+            );
+          }}
+        />
+        <Bar dataKey="count" fill="var(--color-count)" radius={[4, 4, 0, 0]} isAnimationActive={false} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+interface PlayerScatterProps {
+  players: PlayerResult[];
+  xColumn: StatColumn;
+  yColumn: StatColumn;
+  onSelectPlayer: (key: string) => void;
+}
+
+function PlayerScatter({ players, xColumn, yColumn, onSelectPlayer }: PlayerScatterProps) {
+  const points: ScatterPoint[] = players.flatMap((p) => {
+    const x = p[xColumn.key];
+    const y = p[yColumn.key];
+    if (x == null || y == null) return [];
+    return [{ key: playerKey(p), player: p.player, team: p.team, x, y, color: teamColor(p.team) }];
+  });
+  if (points.length === 0) return <EmptyChart />;
+
+  return (
+    <ChartContainer config={{}} className="aspect-auto h-80 w-full">
+      <ScatterChart margin={{ top: 16, right: 16, bottom: 8, left: -8 }}>
+        <CartesianGrid />
+        <XAxis
+          type="number"
+          dataKey="x"
+          name={xColumn.label}
+          domain={["auto", "auto"]}
+          tickFormatter={(v: number) => xColumn.format(v)}
+          tickLine={false}
+        />
+        <YAxis
+          type="number"
+          dataKey="y"
+          name={yColumn.label}
+          domain={["auto", "auto"]}
+          tickFormatter={(v: number) => yColumn.format(v)}
+          tickLine={false}
+        />
+        <ZAxis range={[80, 80]} />
+        <ChartTooltip
+          cursor={false}
+          content={({ active, payload }) => {
+            const point = active ? (payload?.[0]?.payload as ScatterPoint | undefined) : undefined;
+            if (!point) return null;
+            return (
+              <TooltipBox>
+                <div className="font-medium text-foreground">{point.player}</div>
+                {point.team && <div className="text-muted-foreground">{point.team}</div>}
+                <div className="font-mono tabular-nums text-foreground">
+                  {xColumn.label} {formatStat(xColumn, point.x)} · {yColumn.label} {formatStat(yColumn, point.y)}
+                </div>
+              </TooltipBox>
+            );
+          }}
+        />
+        <Scatter
+          data={points}
+          isAnimationActive={false}
+          className="cursor-pointer"
+          onClick={(point: { payload?: ScatterPoint }) => point.payload && onSelectPlayer(point.payload.key)}
+        >
+          {points.map((p) => (
+            <Cell key={p.key} fill={p.color} />
+          ))}
+          <LabelList dataKey="player" position="top" offset={8} className="fill-foreground" fontSize={10} />
+        </Scatter>
+      </ScatterChart>
+    </ChartContainer>
+  );
+}
+
+/** One series per chart colour. */
+const MAX_RADAR_PLAYERS = 5;
+const DEFAULT_RADAR_PLAYERS = 3;
+
+/**
+ * Overlaid profiles of chosen players with every axis as a percentile of the
+ * current result, so "good" means the same distance out on each stat.
+ */
+function PoolRadar({ players, title }: { players: PlayerResult[]; title: string }) {
+  const compare = useCompare();
+  const chartRef = useRef<HTMLDivElement>(null);
+  // Start from the players picked for comparison when they're in this result
+  const [selected, setSelected] = useState<string[]>(() => {
+    const compared = players.filter(compare.isSelected).map(playerKey);
+    return (compared.length > 0 ? compared : players.slice(0, DEFAULT_RADAR_PLAYERS).map(playerKey)).slice(
+      0,
+      MAX_RADAR_PLAYERS
+    );
+  });
+
+  const pools = useMemo(
+    () =>
+      Object.fromEntries(PERFORMANCE_STATS.map((key) => [key, summarizePool(players.map((p) => p[key]))])) as Partial<
+        Record<StatKey, PoolSummary | null>
+      >,
+    [players]
+  );
+  const chosen = selected.flatMap((key) => players.filter((p) => playerKey(p) === key));
+
+  const normalize = (key: StatKey, value: number) => {
+    const pool = pools[key];
+    return pool ? percentileOf(value, pool) : 0;
+  };
+
+  const toggle = (key: string) =>
+    setSelected((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : prev.length < MAX_RADAR_PLAYERS ? [...prev, key] : prev
+    );
+
+  const exportChart = async (format: "svg" | "png") => {
+    const svg = chartRef.current?.querySelector<SVGSVGElement>("svg.recharts-surface");
+    if (!svg) return;
+    const { markup, width, height } = chartToSvg(svg, {
+      background: "hsl(var(--card))",
+      foreground: "hsl(var(--foreground))",
+      // Matches the series colours PlayerRadar defines on its container
+      legend: chosen.map((p, i) => ({ label: p.player, color: `var(--color-p${i})` })),
+    });
+    const fileName = exportFileName(`${title} radar`, Date.now(), format);
+    if (format === "svg") {
+      downloadFile(fileName, markup, "image/svg+xml");
+      return;
+    }
+    try {
+      downloadFile(fileName, await svgToPng(markup, width, height), "image/png");
+    } catch {
+      toast.error("Couldn't render the image — try the SVG instead");
+    }
+  };
+
+  return (
+    <ChartCard
+      title="Radar"
+      controls={
+        <>
+          <DropdownMenu>
+            <DropdownMenuTrigger className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors">
+              Players ({chosen.length})
+              <ChevronDown className="w-4 h-4" />
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+              <DropdownMenuLabel>Up to {MAX_RADAR_PLAYERS} players</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {players.map((p) => {
+                const key = playerKey(p);
+                const checked = selected.includes(key);
+                return (
+                  <DropdownMenuCheckboxItem
+                    key={key}
+                    checked={checked}
+                    disabled={!checked && selected.length >= MAX_RADAR_PLAYERS}
+                    onCheckedChange={() => toggle(key)}
+                    // Keep the menu open while picking several players
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {p.player}
+                    {p.team && <span className="ml-1.5 text-muted-foreground">{p.team}</span>}
+                  </DropdownMenuCheckboxItem>
+                );
+              })}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger
+              disabled={chosen.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              Export
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => exportChart("svg")}>Download SVG</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => exportChart("png")}>Download PNG</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </>
+      }
+    >
+      <p className="text-sm text-muted-foreground">
+        Each axis is the player's percentile among the {players.length} players in this result; tooltips show the raw
+        values.
+      </p>
+      {chosen.length === 0 ? (
+        <p className="py-12 text-center text-sm text-muted-foreground">Pick players to plot.</p>
+      ) : (
+        <div ref={chartRef}>
+          <PlayerRadar players={chosen} normalize={normalize} />
+        </div>
+      )}
+    </ChartCard>
+  );
+}
+
+const TooltipBox = ({ children }: { children: React.ReactNode }) => (
+  <div className="grid gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+    {children}
+  </div>
+);
+
+const EmptyChart = () => (
+  <p className="py-12 text-center text-sm text-muted-foreground">No values for this stat in the current result.</p>
+);
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Bookmark } from "lucide-react";
+import { toast } from "sonner";
+import type { StatsQuery } from "@/lib/api";
+import { useSaved } from "@/hooks/use-saved";
+import { defaultQueryName } from "@/lib/statsQuery";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+
+interface SaveQueryDialogProps {
+  query: StatsQuery;
+}
+
+/** "Save" button that names the current query and optionally files it in a watchlist. */
+export const SaveQueryDialog = ({ query }: SaveQueryDialogProps) => {
+  const { watchlists, saveQuery } = useSaved();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [watchlistId, setWatchlistId] = useState("");
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setName(defaultQueryName(query));
+      setWatchlistId("");
+    }
+    setOpen(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    saveQuery(name, query, watchlistId || undefined);
+    setOpen(false);
+    toast.success(`Saved “${name.trim()}”`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors">
+        <Bookmark className="w-4 h-4" />
+        Save
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Save query</DialogTitle>
+            <DialogDescription>Saved queries keep their filters and run from the Saved page.</DialogDescription>
+          </DialogHeader>
+          <label className="block space-y-1.5">
+            <span className="text-sm font-medium text-foreground">Name</span>
+            <Input value={name} onChange={(e) => setName(e.target.value)} autoFocus maxLength={80} />
+          </label>
+          {watchlists.length > 0 && (
+            <label className="block space-y-1.5">
+              <span className="text-sm font-medium text-foreground">Add to watchlist</span>
+              <select
+                value={watchlistId}
+                onChange={(e) => setWatchlistId(e.target.value)}
+                className="w-full bg-secondary text-secondary-foreground rounded-lg px-3 py-2 text-sm focus:outline-none"
+              >
+                <option value="">None</option>
+                {watchlists.map((w) => (
+                  <option key={w.id} value={w.id}>
+                    {w.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <DialogFooter>
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="px-4 py-2 rounded-xl font-semibold text-sm bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors"
+            >
+              Save
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
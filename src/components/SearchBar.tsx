@@ -1,10 +1,15 @@
-import { useState, useRef, useEffect } from "react";
-import { Search, Loader2, Sparkles } from "lucide-react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { Search, Loader2, Sparkles, ScanSearch, CornerDownLeft } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { parseQuery, describeQuery } from "@/lib/queryParser";
+import { getSuggestions, applySuggestion, type Suggestion } from "@/lib/suggestions";
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
   isLoading?: boolean;
+  /** Query to pre-fill, e.g. from a shared `/search?q=` link. */
+  initialQuery?: string;
 }
 
 const EXAMPLE_QUERIES = [
@@ -14,11 +19,24 @@ const EXAMPLE_QUERIES = [
   "highest ACS past 90 days",
 ];
 
-export const SearchBar = ({ onSearch, isLoading = false }: SearchBarProps) => {
-  const [query, setQuery] = useState("");
+export const SearchBar = ({ onSearch, isLoading = false, initialQuery = "" }: SearchBarProps) => {
+  const [query, setQuery] = useState(initialQuery);
   const [isFocused, setIsFocused] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState("");
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  // Enter only picks a suggestion once the user has arrowed into the list
+  const [navigatedSuggestions, setNavigatedSuggestions] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const suggestions = useMemo(() => getSuggestions(query), [query]);
+  const showSuggestions = isFocused && !suggestionsDismissed && !isLoading && suggestions.length > 0;
+
+  // Live preview of how the backend will interpret the query
+  const interpretation = useMemo(
+    () => (query.trim() ? describeQuery(parseQuery(query)) : []),
+    [query]
+  );
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (query.trim() && !isLoading) {
@@ -26,6 +44,48 @@ export const SearchBar = ({ onSearch, isLoading = false }: SearchBarProps) => {
     }
   };
 
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setSuggestionsDismissed(false);
+    setNavigatedSuggestions(false);
+  };
+
+  const handleSuggestionSelect = (suggestion: Suggestion) => {
+    setQuery((prev) => applySuggestion(prev, suggestion));
+    setActiveSuggestion("");
+    setNavigatedSuggestions(false);
+    inputRef.current?.focus();
+  };
+
+  // Arrow keys move through the dropdown and Tab accepts the highlighted
+  // suggestion; Enter still submits unless the user navigated the list.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+
+    const index = suggestions.findIndex((s) => s.id === activeSuggestion);
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        const next = index === -1 && step === -1 ? suggestions.length - 1 : index + step;
+        setActiveSuggestion(suggestions[(next + suggestions.length) % suggestions.length].id);
+        setNavigatedSuggestions(true);
+        break;
+      }
+      case "Enter":
+      case "Tab":
+        if (index !== -1 && (e.key === "Tab" || navigatedSuggestions)) {
+          e.preventDefault();
+          handleSuggestionSelect(suggestions[index]);
+        }
+        break;
+      case "Escape":
+        setSuggestionsDismissed(true);
+        break;
+    }
+  };
+
   const handleExampleClick = (example: string) => {
     setQuery(example);
     onSearch(example);
@@ -35,6 +95,11 @@ export const SearchBar = ({ onSearch, isLoading = false }: SearchBarProps) => {
     inputRef.current?.focus();
   }, []);
 
+  // Keep the input in sync when the URL query changes (back/forward navigation)
+  useEffect(() => {
+    setQuery(initialQuery);
+  }, [initialQuery]);
+
   return (
     <div className="w-full max-w-4xl mx-auto space-y-6">
       <form onSubmit={handleSubmit} className="relative">
@@ -59,10 +124,14 @@ export const SearchBar = ({ onSearch, isLoading = false }: SearchBarProps) => {
               ref={inputRef}
               type="text"
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
+              onChange={(e) => handleQueryChange(e.target.value)}
+              onKeyDown={handleKeyDown}
               onFocus={() => setIsFocused(true)}
               onBlur={() => setIsFocused(false)}
               placeholder="Try: best Jett players on Bind in NA last 60 days"
+              role="combobox"
+              aria-expanded={showSuggestions}
+              aria-autocomplete="list"
               className="flex-1 bg-transparent text-lg text-foreground placeholder:text-muted-foreground focus:outline-none font-medium"
               disabled={isLoading}
             />
@@ -80,8 +149,28 @@ export const SearchBar = ({ onSearch, isLoading = false }: SearchBarProps) => {
             </button>
           </div>
         </div>
+
+        {showSuggestions && (
+          <SuggestionList
+            suggestions={suggestions}
+            active={activeSuggestion}
+            onActiveChange={setActiveSuggestion}
+            onSelect={handleSuggestionSelect}
+          />
+        )}
       </form>
 
+      {/* Intent preview */}
+      {interpretation.length > 0 && (
+        <div
+          aria-live="polite"
+          className="flex items-center justify-center gap-2 text-sm text-muted-foreground -mt-3"
+        >
+          <ScanSearch className="w-4 h-4 flex-shrink-0" />
+          <span>{interpretation.join(" · ")}</span>
+        </div>
+      )}
+
       {/* Example queries */}
       <div className="flex flex-wrap items-center justify-center gap-2">
         <span className="flex items-center gap-1.5 text-sm text-muted-foreground">
@@ -102,3 +191,59 @@ export const SearchBar = ({ onSearch, isLoading = false }: SearchBarProps) => {
     </div>
   );
 };
+
+interface SuggestionListProps {
+  suggestions: Suggestion[];
+  active: string;
+  onActiveChange: (id: string) => void;
+  onSelect: (suggestion: Suggestion) => void;
+}
+
+const KIND_LABELS: Record<Suggestion["kind"], string> = {
+  agent: "Agent",
+  map: "Map",
+  region: "Region",
+  role: "Role",
+  metric: "Metric",
+};
+
+function SuggestionList({ suggestions, active, onActiveChange, onSelect }: SuggestionListProps) {
+  const corrections = suggestions.filter((s) => s.correction);
+  const completions = suggestions.filter((s) => !s.correction);
+
+  const renderItem = (s: Suggestion) => (
+    <CommandItem
+      key={s.id}
+      value={s.id}
+      onSelect={() => onSelect(s)}
+      className="gap-3 px-3 py-2 rounded-lg cursor-pointer"
+    >
+      <span className="font-medium text-foreground">{s.term}</span>
+      <span className="text-xs text-muted-foreground">
+        {KIND_LABELS[s.kind]}
+        {s.detail.toLowerCase() !== s.term ? ` · ${s.detail}` : ""}
+      </span>
+      {s.id === active && <CornerDownLeft className="w-3.5 h-3.5 ml-auto text-muted-foreground" />}
+    </CommandItem>
+  );
+
+  return (
+    <Command
+      shouldFilter={false}
+      value={active}
+      onValueChange={onActiveChange}
+      // Keep focus in the input while clicking an item
+      onMouseDown={(e) => e.preventDefault()}
+      className="absolute left-0 right-0 top-full mt-2 z-20 h-auto border border-border rounded-2xl shadow-lg"
+    >
+      <CommandList>
+        {corrections.length > 0 && (
+          <CommandGroup heading="Did you mean">{corrections.map(renderItem)}</CommandGroup>
+        )}
+        {completions.length > 0 && (
+          <CommandGroup heading="Suggestions">{completions.map(renderItem)}</CommandGroup>
+        )}
+      </CommandList>
+    </Command>
+  );
+}
@@ -0,0 +1,73 @@
+import { Link } from "react-router-dom";
+import { AlertTriangle, CloudOff } from "lucide-react";
+import { useServiceStatus, type ServiceState } from "@/hooks/use-service-status";
+import { cn } from "@/lib/utils";
+
+const STATE_DISPLAY: Record<ServiceState, { label: string; dot: string }> = {
+  ok: { label: "All systems normal", dot: "bg-emerald-500" },
+  degraded: { label: "VLR scraping degraded", dot: "bg-amber-500" },
+  offline: { label: "API unreachable", dot: "bg-destructive" },
+};
+
+/** Coloured dot plus label for a service state. */
+export const ServiceStateBadge = ({ state, className }: { state: ServiceState | null; className?: string }) => (
+  <span className={cn("inline-flex items-center gap-2", className)}>
+    <span className={cn("w-2 h-2 rounded-full", state ? STATE_DISPLAY[state].dot : "bg-muted-foreground")} />
+    {state ? STATE_DISPLAY[state].label : "Not checked yet"}
+  </span>
+);
+
+/** Header button linking to /status, coloured by the latest health check. */
+export const StatusIndicator = () => {
+  const { latest, checking } = useServiceStatus();
+  const state = latest?.state ?? null;
+  const label = state ? STATE_DISPLAY[state].label : "Checking status…";
+
+  return (
+    <Link
+      to="/status"
+      aria-label={`Service status: ${label}`}
+      title={label}
+      className="p-2 rounded-lg transition-colors duration-200 bg-secondary hover:bg-secondary/80 text-foreground"
+    >
+      <span className="w-5 h-5 flex items-center justify-center">
+        <span
+          className={cn(
+            "w-2.5 h-2.5 rounded-full",
+            state ? STATE_DISPLAY[state].dot : "bg-muted-foreground",
+            (checking || state !== "ok") && "animate-pulse"
+          )}
+        />
+      </span>
+    </Link>
+  );
+};
+
+/** Warning shown above search results while scraping is failing or the API is down. */
+export const StatusBanner = () => {
+  const { latest } = useServiceStatus();
+  if (!latest || latest.state === "ok") return null;
+
+  const offline = latest.state === "offline";
+  const Icon = offline ? CloudOff : AlertTriangle;
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        "max-w-4xl mx-auto mb-8 flex items-start gap-3 rounded-xl border px-4 py-3 text-sm animate-fade-up",
+        offline ? "border-destructive/30 bg-destructive/5" : "border-amber-500/30 bg-amber-500/5"
+      )}
+    >
+      <Icon className={cn("w-5 h-5 shrink-0", offline ? "text-destructive" : "text-amber-500")} />
+      <p className="text-foreground">
+        {offline
+          ? "The ValMuse API can't be reached right now, so searches will fail."
+          : "Reading stats from VLR.gg is currently failing, so searches may error or show cached results."}{" "}
+        <Link to="/status" className="font-medium text-primary hover:underline">
+          View status
+        </Link>
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { Copy, Download, ImageDown } from "lucide-react";
+import { toast } from "sonner";
+import type { QueryResponse } from "@/lib/api";
+import { downloadFile, exportFileName } from "@/lib/exportTable";
+import {
+  SHARE_CARD_DIMENSIONS,
+  canvasToBlob,
+  renderShareCard,
+  type ShareCardOptions,
+  type ShareCardSize,
+  type ShareCardTheme,
+} from "@/lib/shareCard";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+interface ShareImageDialogProps {
+  data: QueryResponse;
+}
+
+const THEMES: { value: ShareCardTheme; label: string }[] = [
+  { value: "dark", label: "Dark" },
+  { value: "light", label: "Light" },
+];
+
+const SIZES: { value: ShareCardSize; label: string }[] = [
+  { value: "square", label: "Square" },
+  { value: "landscape", label: "Landscape" },
+];
+
+/** "Share as image": renders the leaderboard to a PNG card for social posts. */
+export const ShareImageDialog = ({ data }: ShareImageDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<ShareCardOptions>({ theme: "dark", size: "square" });
+  const [image, setImage] = useState<{ blob: Blob; url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-render the preview whenever the dialog opens or an option changes
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    let url: string | null = null;
+    setImage(null);
+    setError(null);
+
+    renderShareCard(
+      { headline: data.headline, rankedLabel: data.ranked_label, metadata: data.metadata, players: data.players },
+      options
+    )
+      .then(canvasToBlob)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setImage({ blob, url });
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Couldn't render the image");
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [open, options, data]);
+
+  const handleDownload = () => {
+    if (!image) return;
+    const title = data.ranked_label ?? data.headline;
+    downloadFile(exportFileName(`${title} ${options.size}`, Date.now(), "png"), image.blob, "image/png");
+  };
+
+  const handleCopy = async () => {
+    if (!image) return;
+    try {
+      await navigator.clipboard.write([new ClipboardItem({ "image/png": image.blob })]);
+      toast.success("Image copied");
+    } catch {
+      toast.error("Couldn't copy the image — try downloading it instead");
+    }
+  };
+
+  const { width, height } = SHARE_CARD_DIMENSIONS[options.size];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors">
+        <ImageDown className="w-4 h-4" />
+        Share
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Share as image</DialogTitle>
+          <DialogDescription>A PNG card of this leaderboard, ready to post.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <Segmented
+            label="Theme"
+            options={THEMES}
+            value={options.theme}
+            onChange={(theme) => setOptions((prev) => ({ ...prev, theme }))}
+          />
+          <Segmented
+            label="Size"
+            options={SIZES}
+            value={options.size}
+            onChange={(size) => setOptions((prev) => ({ ...prev, size }))}
+          />
+        </div>
+
+        <div
+          className="w-full max-h-[55vh] mx-auto flex items-center justify-center"
+          style={{ aspectRatio: `${width} / ${height}` }}
+        >
+          {error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : image ? (
+            <img
+              src={image.url}
+              alt="Leaderboard card preview"
+              className="max-w-full max-h-full rounded-lg border border-border"
+            />
+          ) : (
+            <Skeleton className="w-full h-full rounded-lg" />
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={handleCopy}
+            disabled={!image}
+            className="flex items-center gap-1.5 px-4 py-2 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-xl disabled:opacity-50 transition-colors"
+          >
+            <Copy className="w-4 h-4" />
+            Copy
+          </button>
+          <button
+            type="button"
+            onClick={handleDownload}
+            disabled={!image}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-xl font-semibold text-sm bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Download PNG
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface SegmentedProps<T extends string> {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+function Segmented<T extends string>({ label, options, value, onChange }: SegmentedProps<T>) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <div role="radiogroup" aria-label={label} className="flex bg-secondary rounded-lg p-0.5">
+        {options.map((o) => (
+          <button
+            key={o.value}
+            type="button"
+            role="radio"
+            aria-checked={value === o.value}
+            onClick={() => onChange(o.value)}
+            className={cn(
+              "px-3 py-1 rounded-md font-medium transition-colors",
+              value === o.value ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
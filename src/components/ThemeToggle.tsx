@@ -1,38 +1,13 @@
-import { useState, useEffect } from "react";
 import { Sun, Moon } from "lucide-react";
+import { toggleTheme, useTheme } from "@/hooks/use-theme";
 import { cn } from "@/lib/utils";
 
-function getInitialTheme(): "light" | "dark" {
-  if (typeof window === "undefined") return "light";
-  const stored = localStorage.getItem("valmuse-theme");
-  if (stored === "dark" || stored === "light") return stored;
-  return "light";
-}
-
 export function ThemeToggle() {
-  const [theme, setTheme] = useState<"light" | "dark">(getInitialTheme);
-
-  useEffect(() => {
-    const root = document.documentElement;
-    if (theme === "dark") {
-      root.classList.add("dark");
-    } else {
-      root.classList.remove("dark");
-    }
-    localStorage.setItem("valmuse-theme", theme);
-  }, [theme]);
-
-  // Sync on mount in case class was already set
-  useEffect(() => {
-    const t = getInitialTheme();
-    setTheme(t);
-  }, []);
-
-  const toggle = () => setTheme((prev) => (prev === "light" ? "dark" : "light"));
+  const theme = useTheme();
 
   return (
     <button
-      onClick={toggle}
+      onClick={toggleTheme}
       aria-label={`Switch to ${theme === "light" ? "dark" : "light"} mode`}
       className={cn(
         "p-2 rounded-lg transition-colors duration-200",
@@ -0,0 +1,178 @@
+import { Link } from "react-router-dom";
+import { ArrowDownRight, ArrowUpRight, Minus, RotateCw } from "lucide-react";
+import type { StatsQuery } from "@/lib/api";
+import { PlayerAvatar } from "@/components/PlayerAvatar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useTimespanTrend } from "@/hooks/use-timespan-trend";
+import { TREND_TIMESPANS, formatMetric, trendDirection, type TrendDirection, type TrendRow } from "@/lib/trends";
+import { METRIC_LABELS } from "@/lib/statsQuery";
+import { cn } from "@/lib/utils";
+
+// Player | 90d | 60d | 30d | change | sparkline
+const GRID_TEMPLATE = "minmax(8rem, 1fr) 4.5rem 4.5rem 4.5rem 6rem 4.5rem";
+const SKELETON_ROWS = 5;
+
+interface TrendTableProps {
+  query: StatsQuery;
+}
+
+/** The same query over 90, 60 and 30 days, to show who is heating up or cooling off. */
+export const TrendTable = ({ query }: TrendTableProps) => {
+  const { rows, error, retry } = useTimespanTrend(query);
+  const metricLabel = METRIC_LABELS[query.metric];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        {metricLabel} for everyone in the top {query.limit} of any window. The windows overlap, so a rising last-30-days
+        number means recent form is above the longer-run average.
+      </p>
+      <div className="bg-card border border-border rounded-2xl overflow-x-auto">
+        <div
+          className="grid gap-2 px-6 py-3 border-b border-border text-xs font-semibold text-muted-foreground uppercase tracking-wider"
+          style={{ gridTemplateColumns: GRID_TEMPLATE }}
+        >
+          <span className="pl-12">Player</span>
+          {TREND_TIMESPANS.map((t) => (
+            <span key={t} className="text-right">
+              {t}d
+            </span>
+          ))}
+          <span className="text-right">30 vs 90</span>
+          <span className="sr-only">Trend</span>
+        </div>
+
+        {error ? (
+          <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-6 text-sm text-muted-foreground">
+            <span>Couldn't load every timespan: {error.message}</span>
+            {error.retryable && (
+              <button
+                onClick={retry}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors"
+              >
+                <RotateCw className="w-4 h-4" />
+                Try again
+              </button>
+            )}
+          </div>
+        ) : !rows ? (
+          Array.from({ length: SKELETON_ROWS }, (_, i) => (
+            <div
+              key={i}
+              className="grid gap-2 px-6 py-4 border-b border-border/50 last:border-b-0"
+              style={{ gridTemplateColumns: GRID_TEMPLATE }}
+            >
+              <Skeleton className="h-5 w-32" />
+              {Array.from({ length: 5 }, (_, j) => (
+                <Skeleton key={j} className="h-4 w-10 ml-auto self-center" />
+              ))}
+            </div>
+          ))
+        ) : rows.length === 0 ? (
+          <p className="px-6 py-6 text-sm text-muted-foreground">No players in any timespan.</p>
+        ) : (
+          rows.map((row) => <TrendRowView key={row.key} row={row} metric={query.metric} />)
+        )}
+      </div>
+    </div>
+  );
+};
+
+function TrendRowView({ row, metric }: { row: TrendRow; metric: StatsQuery["metric"] }) {
+  const { delta } = row;
+  const direction = trendDirection(metric, delta);
+  const DeltaIcon = direction === 1 ? ArrowUpRight : direction === -1 ? ArrowDownRight : Minus;
+
+  return (
+    <div
+      className="grid gap-2 px-6 py-4 border-b border-border/50 last:border-b-0 hover:bg-secondary/30 transition-colors"
+      style={{ gridTemplateColumns: GRID_TEMPLATE }}
+    >
+      <div className="flex items-center gap-3 min-w-0">
+        <PlayerAvatar playerId={row.player_id} name={row.player} />
+        <div className="flex flex-col justify-center min-w-0">
+          {row.player_id != null ? (
+            <Link
+              to={`/player/${row.player_id}`}
+              state={{ player: row.player, team: row.team }}
+              className="font-bold text-foreground truncate hover:text-primary transition-colors"
+            >
+              {row.player}
+            </Link>
+          ) : (
+            <span className="font-bold text-foreground truncate">{row.player}</span>
+          )}
+          {row.team && <span className="text-xs text-muted-foreground truncate">{row.team}</span>}
+        </div>
+      </div>
+      {TREND_TIMESPANS.map((t) => (
+        <span
+          key={t}
+          className={cn("text-right self-center", t === "30" ? "font-semibold text-foreground" : "text-muted-foreground")}
+        >
+          {row.values[t] != null ? formatMetric(metric, row.values[t]) : "—"}
+        </span>
+      ))}
+      <span
+        className={cn(
+          "flex items-center justify-end gap-1 self-center font-medium",
+          direction === 1 && "text-emerald-500",
+          direction === -1 && "text-destructive",
+          (direction === 0 || direction == null) && "text-muted-foreground"
+        )}
+      >
+        {delta != null ? (
+          <>
+            <DeltaIcon className="w-4 h-4" />
+            {direction ? `${delta > 0 ? "+" : "−"}${formatMetric(metric, Math.abs(delta))}` : "±0"}
+          </>
+        ) : (
+          "—"
+        )}
+      </span>
+      <Sparkline values={TREND_TIMESPANS.map((t) => row.values[t])} direction={direction} />
+    </div>
+  );
+}
+
+const SPARK_WIDTH = 64;
+const SPARK_HEIGHT = 24;
+const SPARK_PAD = 3;
+
+/** Tiny line through the 90/60/30-day values; gaps are skipped. */
+function Sparkline({ values, direction }: { values: (number | null)[]; direction: TrendDirection | null }) {
+  const known = values.filter((v): v is number => v != null);
+  if (known.length < 2) return <span />;
+
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  const x = (i: number) => SPARK_PAD + (i * (SPARK_WIDTH - SPARK_PAD * 2)) / (values.length - 1);
+  // Flat lines sit in the middle rather than on an edge
+  const y = (v: number) =>
+    max === min ? SPARK_HEIGHT / 2 : SPARK_HEIGHT - SPARK_PAD - ((v - min) / (max - min)) * (SPARK_HEIGHT - SPARK_PAD * 2);
+  const points = values.flatMap((v, i) => (v != null ? [[x(i), y(v)] as const] : []));
+  const [lastX, lastY] = points[points.length - 1];
+
+  return (
+    <svg
+      width={SPARK_WIDTH}
+      height={SPARK_HEIGHT}
+      viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`}
+      className={cn(
+        "ml-auto self-center",
+        direction === 1 ? "text-emerald-500" : direction === -1 ? "text-destructive" : "text-muted-foreground"
+      )}
+      aria-hidden
+    >
+      <polyline
+        points={points.map(([px, py]) => `${px},${py}`).join(" ")}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      <circle cx={lastX} cy={lastY} r={2.5} fill="currentColor" />
+    </svg>
+  );
+}
@@ -0,0 +1,48 @@
+import { Link } from "react-router-dom";
+import { ListPlus } from "lucide-react";
+import { useSaved, type WatchedPlayer } from "@/hooks/use-saved";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface WatchlistMenuProps {
+  player: WatchedPlayer;
+}
+
+/** Dropdown for adding a player to, or removing them from, watchlists. */
+export const WatchlistMenu = ({ player }: WatchlistMenuProps) => {
+  const { watchlists, togglePlayerInWatchlist } = useSaved();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors">
+        <ListPlus className="w-4 h-4" />
+        Watch
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Watchlists</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {watchlists.map((w) => (
+          <DropdownMenuCheckboxItem
+            key={w.id}
+            checked={w.players.some((p) => p.player_id === player.player_id)}
+            onCheckedChange={() => togglePlayerInWatchlist(w.id, player)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {w.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+        {watchlists.length > 0 && <DropdownMenuSeparator />}
+        <DropdownMenuItem asChild>
+          <Link to="/saved">{watchlists.length > 0 ? "Manage watchlists" : "Create a watchlist"}</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
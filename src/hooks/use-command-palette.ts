@@ -0,0 +1,51 @@
+import { useEffect, useSyncExternalStore } from "react";
+import type { QueryResponse } from "@/lib/api";
+import type { ExportSource } from "@/lib/exportTable";
+
+/** What the page currently on screen offers the palette to act on. */
+export interface PaletteContext {
+  /** The search result being viewed. */
+  result: Pick<QueryResponse, "query" | "players"> | null;
+  /** The ranked table as shown, for export. */
+  table: ExportSource | null;
+}
+
+interface PaletteState extends PaletteContext {
+  open: boolean;
+}
+
+const listeners = new Set<() => void>();
+let state: PaletteState = { open: false, result: null, table: null };
+
+function update(patch: Partial<PaletteState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((l) => l());
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const setCommandPaletteOpen = (open: boolean) => update({ open });
+
+export const toggleCommandPalette = () => update({ open: !state.open });
+
+export function useCommandPalette(): PaletteState {
+  return useSyncExternalStore(subscribe, () => state, () => state);
+}
+
+/**
+ * Offer something to the palette while the calling component is mounted,
+ * e.g. the current result or the table to export. Pass null to withdraw it.
+ */
+export function useProvidePaletteContext<K extends keyof PaletteContext>(key: K, value: PaletteContext[K]) {
+  useEffect(() => {
+    if (!value) return;
+    update({ [key]: value });
+    return () => {
+      // A newer provider may have replaced this value already
+      if (state[key] === value) update({ [key]: null });
+    };
+  }, [key, value]);
+}
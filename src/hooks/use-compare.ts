@@ -0,0 +1,35 @@
+import type { PlayerResult } from "@/lib/api";
+import { createPersistentStore, usePersistentStore } from "@/lib/persistentStore";
+import { playerKey } from "@/lib/playerStats";
+
+export const MAX_COMPARE = 4;
+
+export interface ComparedPlayer extends PlayerResult {
+  /** Ranked label of the result list the player was picked from. */
+  context: string | null;
+}
+
+const compareStore = createPersistentStore<ComparedPlayer[]>("valmuse-compare", [], (stored) =>
+  Array.isArray(stored) ? stored.slice(0, MAX_COMPARE) : null
+);
+
+/** Players picked for head-to-head comparison, shared across searches. */
+export function useCompare() {
+  const players = usePersistentStore(compareStore);
+
+  const isSelected = (p: PlayerResult) => players.some((q) => playerKey(q) === playerKey(p));
+
+  const toggle = (p: PlayerResult, context: string | null) =>
+    compareStore.set((prev) => {
+      if (prev.some((q) => playerKey(q) === playerKey(p))) {
+        return prev.filter((q) => playerKey(q) !== playerKey(p));
+      }
+      return prev.length < MAX_COMPARE ? [...prev, { ...p, context }] : prev;
+    });
+
+  const remove = (p: PlayerResult) => compareStore.set((prev) => prev.filter((q) => playerKey(q) !== playerKey(p)));
+
+  const clear = () => compareStore.set([]);
+
+  return { players, isSelected, toggle, remove, clear, isFull: players.length >= MAX_COMPARE };
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+/** Current time, re-read every `intervalMs` so relative timestamps stay fresh. */
+export function useNow(intervalMs = 30_000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,21 @@
+import { useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import type { StatsQuery } from "@/lib/api";
+
+/**
+ * Navigate to `/search` for a query. The text goes in the URL so the search
+ * stays shareable; a structured query rides along in history state so it's
+ * replayed exactly rather than re-parsed.
+ */
+export function useRunSearch() {
+  const navigate = useNavigate();
+
+  return useCallback(
+    (text: string, query?: StatsQuery | null) => {
+      navigate(`/search?${new URLSearchParams({ q: text })}`, {
+        state: query ? { query } : null,
+      });
+    },
+    [navigate]
+  );
+}
@@ -0,0 +1,119 @@
+import type { StatsQuery } from "@/lib/api";
+import { createPersistentStore, usePersistentStore } from "@/lib/persistentStore";
+import { toQueryText } from "@/lib/statsQuery";
+import { createId } from "@/lib/utils";
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  /** Structured query as the backend understood it — replayed verbatim. */
+  query: StatsQuery;
+  createdAt: number;
+}
+
+export interface WatchedPlayer {
+  player_id: number;
+  player: string;
+  team: string | null;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  /** Ids of saved queries grouped under this list. */
+  queryIds: string[];
+  players: WatchedPlayer[];
+  createdAt: number;
+}
+
+interface SavedState {
+  queries: SavedQuery[];
+  watchlists: Watchlist[];
+}
+
+const savedStore = createPersistentStore<SavedState>(
+  "valmuse-saved",
+  { queries: [], watchlists: [] },
+  (stored) => {
+    const s = stored as Partial<SavedState> | null;
+    return s && Array.isArray(s.queries) && Array.isArray(s.watchlists)
+      ? { queries: s.queries, watchlists: s.watchlists }
+      : null;
+  }
+);
+
+/** Query text used for the `/search?q=` link of a saved query. */
+export const savedQueryText = (saved: SavedQuery) => toQueryText(saved.query);
+
+const updateWatchlist = (id: string, fn: (list: Watchlist) => Watchlist) =>
+  savedStore.set((prev) => ({
+    ...prev,
+    watchlists: prev.watchlists.map((w) => (w.id === id ? fn(w) : w)),
+  }));
+
+/** Named saved queries and watchlists of queries and players, persisted locally. */
+export function useSaved() {
+  const { queries, watchlists } = usePersistentStore(savedStore);
+
+  const saveQuery = (name: string, query: StatsQuery, watchlistId?: string) => {
+    const saved: SavedQuery = { id: createId(), name: name.trim(), query, createdAt: Date.now() };
+    savedStore.set((prev) => ({
+      queries: [saved, ...prev.queries],
+      watchlists: prev.watchlists.map((w) =>
+        w.id === watchlistId ? { ...w, queryIds: [...w.queryIds, saved.id] } : w
+      ),
+    }));
+    return saved;
+  };
+
+  const renameQuery = (id: string, name: string) =>
+    savedStore.set((prev) => ({
+      ...prev,
+      queries: prev.queries.map((q) => (q.id === id ? { ...q, name: name.trim() } : q)),
+    }));
+
+  // Deleting a query also drops it from every watchlist that referenced it
+  const removeQuery = (id: string) =>
+    savedStore.set((prev) => ({
+      queries: prev.queries.filter((q) => q.id !== id),
+      watchlists: prev.watchlists.map((w) => ({ ...w, queryIds: w.queryIds.filter((q) => q !== id) })),
+    }));
+
+  const createWatchlist = (name: string) => {
+    const list: Watchlist = { id: createId(), name: name.trim(), queryIds: [], players: [], createdAt: Date.now() };
+    savedStore.set((prev) => ({ ...prev, watchlists: [...prev.watchlists, list] }));
+    return list;
+  };
+
+  const renameWatchlist = (id: string, name: string) => updateWatchlist(id, (w) => ({ ...w, name: name.trim() }));
+
+  const removeWatchlist = (id: string) =>
+    savedStore.set((prev) => ({ ...prev, watchlists: prev.watchlists.filter((w) => w.id !== id) }));
+
+  const toggleQueryInWatchlist = (watchlistId: string, queryId: string) =>
+    updateWatchlist(watchlistId, (w) => ({
+      ...w,
+      queryIds: w.queryIds.includes(queryId) ? w.queryIds.filter((q) => q !== queryId) : [...w.queryIds, queryId],
+    }));
+
+  const togglePlayerInWatchlist = (watchlistId: string, player: WatchedPlayer) =>
+    updateWatchlist(watchlistId, (w) => ({
+      ...w,
+      players: w.players.some((p) => p.player_id === player.player_id)
+        ? w.players.filter((p) => p.player_id !== player.player_id)
+        : [...w.players, player],
+    }));
+
+  return {
+    queries,
+    watchlists,
+    saveQuery,
+    renameQuery,
+    removeQuery,
+    createWatchlist,
+    renameWatchlist,
+    removeWatchlist,
+    toggleQueryInWatchlist,
+    togglePlayerInWatchlist,
+  };
+}
@@ -0,0 +1,62 @@
+import type { StatsQuery } from "@/lib/api";
+import { createPersistentStore, usePersistentStore } from "@/lib/persistentStore";
+import { createId } from "@/lib/utils";
+
+const MAX_UNPINNED = 50;
+
+export interface HistoryEntry {
+  id: string;
+  /** Query text as run (what the `/search?q=` link carries). */
+  text: string;
+  /** Structured form returned by the backend, when available. */
+  query: StatsQuery | null;
+  timestamp: number;
+  resultCount: number;
+  pinned: boolean;
+}
+
+const historyStore = createPersistentStore<HistoryEntry[]>("valmuse-history", [], (stored) =>
+  Array.isArray(stored) ? stored : null
+);
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Record a completed search; repeats move to the top instead of duplicating. */
+export function recordSearch(text: string, query: StatsQuery | null, resultCount: number) {
+  historyStore.set((prev) => {
+    const existing = prev.find((e) => sameText(e.text, text));
+    const entry: HistoryEntry = {
+      id: existing?.id ?? createId(),
+      text,
+      query,
+      timestamp: Date.now(),
+      resultCount,
+      pinned: existing?.pinned ?? false,
+    };
+    const rest = prev.filter((e) => e !== existing);
+    // Pinned entries never age out
+    let unpinned = 0;
+    return [entry, ...rest].filter((e) => e.pinned || ++unpinned <= MAX_UNPINNED);
+  });
+}
+
+/** Past searches, newest first, persisted locally. */
+export function useSearchHistory() {
+  const entries = usePersistentStore(historyStore);
+
+  const togglePin = (id: string) =>
+    historyStore.set((prev) => prev.map((e) => (e.id === id ? { ...e, pinned: !e.pinned } : e)));
+
+  const remove = (id: string) => historyStore.set((prev) => prev.filter((e) => e.id !== id));
+
+  const clear = () => historyStore.set([]);
+
+  return {
+    entries,
+    pinned: entries.filter((e) => e.pinned),
+    recent: entries.filter((e) => !e.pinned),
+    togglePin,
+    remove,
+    clear,
+  };
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { checkApiHealth, checkScraperHealth, type ScraperHealth } from "@/lib/api";
+import { createPersistentStore, usePersistentStore } from "@/lib/persistentStore";
+import { createId } from "@/lib/utils";
+
+/**
+ * - `ok` — the API is up and the test scrape returned rows
+ * - `degraded` — the API is up but scraping VLR is failing
+ * - `offline` — the API itself couldn't be reached
+ */
+export type ServiceState = "ok" | "degraded" | "offline";
+
+export interface StatusCheck {
+  id: string;
+  checkedAt: number;
+  state: ServiceState;
+  /** Null when the API was offline and the scraper wasn't checked. */
+  scraper: ScraperHealth | null;
+}
+
+const MAX_HISTORY = 50;
+// The backend caches scraper checks for a minute, so polling never adds VLR
+// load; it just has no reason to be frequent while healthy
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+// …and more often while degraded, to notice recovery
+const DEGRADED_POLL_INTERVAL_MS = 60 * 1000;
+
+const statusStore = createPersistentStore<StatusCheck[]>("valmuse-status", [], (stored) =>
+  Array.isArray(stored) ? stored : null
+);
+
+async function runCheck(): Promise<StatusCheck> {
+  const base = { id: createId(), checkedAt: Date.now() };
+  try {
+    await checkApiHealth();
+    const scraper = await checkScraperHealth();
+    return { ...base, state: scraper.ok ? "ok" : "degraded", scraper };
+  } catch {
+    return { ...base, state: "offline", scraper: null };
+  }
+}
+
+let pending: Promise<void> | null = null;
+const checkingListeners = new Set<() => void>();
+
+/** Run a health check now, sharing one already in progress. */
+export function checkServiceStatus(): Promise<void> {
+  if (!pending) {
+    pending = runCheck()
+      .then((check) => statusStore.set((prev) => [check, ...prev].slice(0, MAX_HISTORY)))
+      .finally(() => {
+        pending = null;
+        checkingListeners.forEach((l) => l());
+      });
+    checkingListeners.forEach((l) => l());
+  }
+  return pending;
+}
+
+// Components showing the status share one poller
+let subscribers = 0;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+function schedule() {
+  if (timer) clearTimeout(timer);
+  const latest = statusStore.get()[0];
+  const interval = latest?.state === "ok" ? POLL_INTERVAL_MS : DEGRADED_POLL_INTERVAL_MS;
+  // A recent check — from this page load or a previous one — counts
+  const delay = latest ? Math.max(0, latest.checkedAt + interval - Date.now()) : 0;
+  timer = setTimeout(async () => {
+    timer = null;
+    // Background tabs catch up when they become visible again
+    if (document.visibilityState === "hidden") return;
+    await checkServiceStatus();
+    if (subscribers > 0) schedule();
+  }, delay);
+}
+
+function onVisibilityChange() {
+  if (document.visibilityState === "visible" && !timer && !pending) schedule();
+}
+
+function startPolling() {
+  if (subscribers++ > 0) return;
+  document.addEventListener("visibilitychange", onVisibilityChange);
+  schedule();
+}
+
+function stopPolling() {
+  if (--subscribers > 0) return;
+  document.removeEventListener("visibilitychange", onVisibilityChange);
+  if (timer) clearTimeout(timer);
+  timer = null;
+}
+
+/** Latest API/scraper health plus recent history, polled while mounted. */
+export function useServiceStatus() {
+  const history = usePersistentStore(statusStore);
+  const [checking, setChecking] = useState(pending !== null);
+
+  useEffect(() => {
+    const update = () => setChecking(pending !== null);
+    checkingListeners.add(update);
+    startPolling();
+    return () => {
+      checkingListeners.delete(update);
+      stopPolling();
+    };
+  }, []);
+
+  const checkNow = async () => {
+    await checkServiceStatus();
+    schedule();
+  };
+
+  return {
+    latest: history[0] ?? null,
+    history,
+    checking,
+    checkNow,
+    clearHistory: () => statusStore.set([]),
+  };
+}
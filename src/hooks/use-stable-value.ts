@@ -0,0 +1,10 @@
+import { useMemo } from "react";
+
+/**
+ * `value`, keeping the same reference while its JSON form is unchanged. Lets
+ * effects depend on plain-data props that callers rebuild every render.
+ */
+export function useStableValue<T extends object | null>(value: T): T {
+  const key = JSON.stringify(value);
+  return useMemo(() => JSON.parse(key) as T, [key]);
+}
@@ -0,0 +1,43 @@
+import { useSyncExternalStore } from "react";
+
+export type Theme = "light" | "dark";
+
+const STORAGE_KEY = "valmuse-theme";
+
+function readTheme(): Theme {
+  if (typeof window === "undefined") return "light";
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored === "dark" ? "dark" : "light";
+}
+
+const listeners = new Set<() => void>();
+let theme = readTheme();
+
+function apply(next: Theme) {
+  document.documentElement.classList.toggle("dark", next === "dark");
+}
+
+if (typeof window !== "undefined") apply(theme);
+
+export function setTheme(next: Theme) {
+  theme = next;
+  apply(next);
+  try {
+    localStorage.setItem(STORAGE_KEY, next);
+  } catch {
+    // Storage unavailable — the theme still applies for this page
+  }
+  listeners.forEach((l) => l());
+}
+
+export const toggleTheme = () => setTheme(theme === "light" ? "dark" : "light");
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+/** Light/dark theme shared by the header toggle and the command palette. */
+export function useTheme() {
+  return useSyncExternalStore(subscribe, () => theme, () => theme);
+}
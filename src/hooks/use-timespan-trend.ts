@@ -0,0 +1,47 @@
+import { useEffect, useState } from "react";
+import { useStableValue } from "@/hooks/use-stable-value";
+import {
+  isAbortError,
+  queryStats,
+  toApiRequestError,
+  type ApiRequestError,
+  type PlayerResult,
+  type StatsQuery,
+  type Timespan,
+} from "@/lib/api";
+import { TIMESPANS } from "@/lib/statsQuery";
+import { mergeTimespanResults, trendQuery, type TrendRow } from "@/lib/trends";
+
+/**
+ * Run `query` for every timespan and merge the results by player. The three
+ * requests go out together; any failure fails the whole trend.
+ */
+export function useTimespanTrend(rawQuery: StatsQuery) {
+  const [rows, setRows] = useState<TrendRow[] | null>(null);
+  const [error, setError] = useState<ApiRequestError | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const query = useStableValue(rawQuery);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setRows(null);
+    setError(null);
+
+    Promise.all(TIMESPANS.map((t) => queryStats(trendQuery(query, t), { signal: controller.signal })))
+      .then((responses) => {
+        const results = Object.fromEntries(TIMESPANS.map((t, i) => [t, responses[i].players]));
+        setRows(mergeTimespanResults(results as Record<Timespan, PlayerResult[]>, query));
+      })
+      .catch((err) => {
+        if (!isAbortError(err)) setError(toApiRequestError(err));
+      });
+
+    return () => controller.abort();
+  }, [query, attempt]);
+
+  return {
+    rows,
+    error,
+    retry: () => setAttempt((n) => n + 1),
+  };
+}
@@ -0,0 +1,24 @@
+import { createPersistentStore, usePersistentStore } from "@/lib/persistentStore";
+import { DEFAULT_VISIBLE_COLUMNS, STAT_COLUMNS, type StatKey } from "@/lib/playerStats";
+
+const columnsStore = createPersistentStore<StatKey[]>("valmuse-columns", DEFAULT_VISIBLE_COLUMNS, (stored) =>
+  // Drop anything that is no longer a known column
+  Array.isArray(stored) ? STAT_COLUMNS.map((c) => c.key).filter((key) => stored.includes(key)) : null
+);
+
+/** Which stat columns the result table shows, persisted across sessions. */
+export function useVisibleColumns() {
+  const visible = usePersistentStore(columnsStore);
+
+  const toggle = (key: StatKey) =>
+    columnsStore.set((prev) =>
+      prev.includes(key)
+        ? prev.filter((k) => k !== key)
+        // Keep display order stable regardless of toggle order
+        : STAT_COLUMNS.map((c) => c.key).filter((k) => k === key || prev.includes(k))
+    );
+
+  const reset = () => columnsStore.set(DEFAULT_VISIBLE_COLUMNS);
+
+  return { visible, toggle, reset };
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { useStableValue } from "@/hooks/use-stable-value";
+import {
+  isAbortError,
+  queryStats,
+  toApiRequestError,
+  type ApiRequestError,
+  type PlayerResult,
+  type StatsQuery,
+} from "@/lib/api";
+import { MAX_LIMIT } from "@/lib/statsQuery";
+
+/**
+ * The same query widened to MAX_LIMIT players, so percentiles and z-scores
+ * have a real distribution to sit in. Only fetched while `enabled`.
+ */
+export function useWidePool(rawQuery: StatsQuery | null, enabled: boolean) {
+  const [players, setPlayers] = useState<PlayerResult[] | null>(null);
+  const [error, setError] = useState<ApiRequestError | null>(null);
+  const query = useStableValue(rawQuery);
+
+  useEffect(() => {
+    setPlayers(null);
+    setError(null);
+    if (!query || !enabled || query.limit >= MAX_LIMIT) return;
+
+    const controller = new AbortController();
+    queryStats({ ...query, limit: MAX_LIMIT }, { signal: controller.signal })
+      .then((resp) => setPlayers(resp.players))
+      .catch((err) => {
+        if (!isAbortError(err)) setError(toApiRequestError(err));
+      });
+    return () => controller.abort();
+  }, [query, enabled]);
+
+  return { players, error, isLoading: enabled && !players && !error && (query?.limit ?? MAX_LIMIT) < MAX_LIMIT };
+}
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  REVALIDATE_AFTER_MS,
+  checkScraperHealth,
+  getCachedQueryStats,
+  needsRevalidation,
+  queryStats,
+  type QueryResponse,
+  type StatsQuery,
+} from "@/lib/api";
+
+const duelistsQuery: StatsQuery = {
+  metric: "acs",
+  sort: "desc",
+  limit: 5,
+  filters: { role: "duelist", region: "eu", timespan: "60", min_rounds: 200 },
+};
+
+const response: QueryResponse = {
+  success: true,
+  headline: "Top 5 EMEA Duelists",
+  ranked_label: "Top 5 ACS",
+  players: [],
+  metadata: "",
+  result_count: 0,
+  query: duelistsQuery,
+};
+
+// jsdom has no IndexedDB, so these exercise the in-memory layer of the cache
+describe("query response cache", () => {
+  beforeEach(async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify(response), { status: 200 })));
+    await queryStats("Top 5 EMEA Duelists");
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("serves synonymous phrasings and the parsed query from one entry", async () => {
+    expect((await getCachedQueryStats("top 5  eu duelist"))?.data).toEqual(response);
+    // Filter order doesn't matter for structured lookups
+    const reordered: StatsQuery = {
+      ...duelistsQuery,
+      filters: { min_rounds: 200, timespan: "60", region: "eu", role: "duelist" },
+    };
+    expect((await getCachedQueryStats(reordered))?.data).toEqual(response);
+  });
+
+  it("matches structured filters that differ only in case or alias", async () => {
+    // Hand-built queries (saved, shared or older clients) can carry any spelling
+    const spelled = (filters: Record<string, unknown>) =>
+      ({ ...duelistsQuery, filters: { ...duelistsQuery.filters, ...filters } }) as StatsQuery;
+    expect((await getCachedQueryStats(spelled({ role: "Duelists", region: "Europe" })))?.data).toEqual(response);
+    expect((await getCachedQueryStats(spelled({ region: "EU" })))?.data).toEqual(response);
+  });
+
+  it("doesn't collide with unrelated queries", async () => {
+    expect(await getCachedQueryStats("top 5 na duelists")).toBeNull();
+    expect(await getCachedQueryStats("top 10 emea duelists")).toBeNull();
+    expect(await getCachedQueryStats({ ...duelistsQuery, metric: "kd" })).toBeNull();
+    expect(
+      await getCachedQueryStats({ ...duelistsQuery, filters: { ...duelistsQuery.filters, region: "na" } })
+    ).toBeNull();
+  });
+});
+
+describe("needsRevalidation", () => {
+  const cachedAt = (fetchedAt: number) => ({ data: response, fetchedAt });
+
+  it("keeps fresh results without a refresh", () => {
+    expect(needsRevalidation(cachedAt(1_000), 1_000)).toBe(false);
+    expect(needsRevalidation(cachedAt(1_000), 1_000 + REVALIDATE_AFTER_MS - 1)).toBe(false);
+  });
+
+  it("refreshes results from the threshold on", () => {
+    expect(needsRevalidation(cachedAt(1_000), 1_000 + REVALIDATE_AFTER_MS)).toBe(true);
+    expect(needsRevalidation(cachedAt(1_000), 1_000 + 10 * REVALIDATE_AFTER_MS)).toBe(true);
+  });
+});
+
+describe("retries", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const respondWithStatus = (status: number, headers: Record<string, string> = {}) => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ detail: "nope" }), { status, headers }));
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  };
+
+  const noDelay = { retries: 3, baseDelayMs: 0, maxDelayMs: 0 };
+
+  it.each([
+    [401, "unauthorized"],
+    [403, "unauthorized"],
+    [404, "not_found"],
+    [500, "server"],
+    [400, "validation"],
+  ])("doesn't retry a %i", async (status, kind) => {
+    const fetchMock = respondWithStatus(status);
+    await expect(queryStats("top 5 kd", { retry: noDelay })).rejects.toMatchObject({ kind, status });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([502, 503, 504])("retries a %i before giving up", async (status) => {
+    const fetchMock = respondWithStatus(status);
+    await expect(queryStats("top 5 kd", { retry: noDelay })).rejects.toMatchObject({ status });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("retries a 429 and keeps its own kind", async () => {
+    const fetchMock = respondWithStatus(429);
+    await expect(queryStats("top 5 kd", { retry: noDelay })).rejects.toMatchObject({ kind: "rate_limited" });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("waits at least as long as Retry-After asks", async () => {
+    vi.useFakeTimers();
+    try {
+      const fetchMock = respondWithStatus(429, { "Retry-After": "2" });
+      const result = queryStats("top 5 kd", { retry: { retries: 1, baseDelayMs: 0, maxDelayMs: 5000 } }).catch(
+        (err: unknown) => err
+      );
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(await result).toMatchObject({ kind: "rate_limited", retryAfterMs: 2000 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("gives up at once when Retry-After is longer than the backoff allows", async () => {
+    const fetchMock = respondWithStatus(429, { "Retry-After": "120" });
+    await expect(queryStats("top 5 kd", { retry: noDelay })).rejects.toMatchObject({ kind: "rate_limited" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("checkScraperHealth", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reports a failed check with the time the backend ran it", async () => {
+    const detail = { status: "error", message: "Health check returned 0 rows", checked_at: "2026-10-19T12:00:00+00:00" };
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ detail }), { status: 503 })));
+    await expect(checkScraperHealth()).resolves.toMatchObject({
+      ok: false,
+      message: "Health check returned 0 rows",
+      checked_at: "2026-10-19T12:00:00+00:00",
+    });
+  });
+
+  it("falls back to now without a structured detail", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("Bad gateway", { status: 502 })));
+    const before = Date.now();
+    const health = await checkScraperHealth();
+    expect(health.ok).toBe(false);
+    expect(Date.parse(health.checked_at)).toBeGreaterThanOrEqual(before - 1000);
+  });
+});
@@ -1,5 +1,40 @@
+import {
+  apiHealthResponse,
+  avatarBatchResponse,
+  avatarResponse,
+  playerSplitResponse,
+  queryResponse,
+  scraperHealthFailure,
+  scraperHealthResponse,
+} from "@/lib/apiSchemas";
+import { cacheGet, cachePut } from "@/lib/queryCache";
+import { parse, SchemaError, type Parser } from "@/lib/schema";
+import { DEFAULT_MIN_ROUNDS, DEFAULT_TIMESPAN, normalizeFilters, normalizeQueryText } from "@/lib/statsQuery";
+
 const API_BASE = import.meta.env.VITE_API_URL || "";
 
+export type StatMetric = "acs" | "kd" | "kills" | "hs_pct" | "kast";
+export type AgentRole = "duelist" | "controller" | "initiator" | "sentinel";
+export type Region = "na" | "eu" | "la" | "ap" | "mn";
+export type Timespan = "30" | "60" | "90";
+
+export interface StatsQueryFilters {
+  agent?: string;
+  role?: AgentRole;
+  map?: string;
+  region?: Region;
+  timespan?: Timespan;
+  min_rounds?: number;
+}
+
+/** Structured query — mirrors the object produced by the backend's `nlp_parser.parse`. */
+export interface StatsQuery {
+  metric: StatMetric;
+  sort: "asc" | "desc";
+  limit: number;
+  filters: StatsQueryFilters;
+}
+
 export interface PlayerResult {
   rank: number;
   player: string;
@@ -11,6 +46,7 @@ export interface PlayerResult {
   kd: number | null;
   kast: number | null;
   adr: number | null;
+  kpr: number | null;
   hs_pct: number | null;
   rounds: number | null;
 }
@@ -22,40 +58,383 @@ export interface QueryResponse {
   players: PlayerResult[];
   metadata: string;
   result_count: number;
+  query: StatsQuery;
 }
 
 export interface ApiError {
   detail: string;
 }
 
-export async function queryStats(query: string): Promise<QueryResponse> {
-  const resp = await fetch(`${API_BASE}/api/query`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ query }),
-  });
+/**
+ * - `validation` — the backend rejected the query (400/422)
+ * - `upstream` — scraping vlr.gg failed or a proxy couldn't reach the API (502/503)
+ * - `timeout` — vlr.gg was too slow (504)
+ * - `rate_limited` — too many requests (429); retried after the server's Retry-After
+ * - `not_found` — no such endpoint (404), usually a wrong API base URL
+ * - `unauthorized` — the API refused access (401/403)
+ * - `server` — any other error status (500, other 4xx); retrying won't help
+ * - `network` — the API couldn't be reached at all
+ * - `malformed` — a response arrived but isn't the shape we expect
+ */
+export type ApiErrorKind =
+  | "validation"
+  | "upstream"
+  | "timeout"
+  | "rate_limited"
+  | "not_found"
+  | "unauthorized"
+  | "server"
+  | "network"
+  | "malformed";
+
+/** Failure from an API call, classified by status rather than message wording. */
+export class ApiRequestError extends Error {
+  readonly kind: ApiErrorKind;
+  /** HTTP status, when a response was received. */
+  readonly status: number | null;
+  /** For `malformed` responses, the path of the field that failed validation. */
+  readonly field: string | null;
+  /** For `rate_limited` responses, how long the server asked us to wait. */
+  readonly retryAfterMs: number | null;
+  /** The error body's `detail`, for endpoints that report structured failures. */
+  readonly detail: unknown;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    status: number | null = null,
+    extra: { field?: string; retryAfterMs?: number | null; detail?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.kind = kind;
+    this.status = status;
+    this.field = extra.field ?? null;
+    this.retryAfterMs = extra.retryAfterMs ?? null;
+    this.detail = extra.detail ?? null;
+  }
+
+  /** Whether repeating the same request could plausibly succeed. */
+  get retryable(): boolean {
+    return (
+      this.kind === "upstream" || this.kind === "timeout" || this.kind === "rate_limited" || this.kind === "network"
+    );
+  }
+}
+
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  validation: "Couldn't understand that query.",
+  upstream: "Stats temporarily unavailable. Try again in a few minutes.",
+  timeout: "Request timed out. VLR may be slow — try again.",
+  rate_limited: "Too many requests right now. Wait a moment and try again.",
+  not_found: "The ValMuse API doesn't have this endpoint.",
+  unauthorized: "The ValMuse API refused the request.",
+  server: "The ValMuse API returned an error.",
+  network: "Couldn't reach the ValMuse API.",
+  malformed: "The server sent a response we couldn't read.",
+};
+
+function kindForStatus(status: number): ApiErrorKind {
+  if (status === 400 || status === 422) return "validation";
+  if (status === 502 || status === 503) return "upstream";
+  if (status === 504) return "timeout";
+  if (status === 429) return "rate_limited";
+  if (status === 404) return "not_found";
+  if (status === 401 || status === 403) return "unauthorized";
+  return "server";
+}
+
+/** Retry-After as milliseconds; the header is either seconds or an HTTP date. */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** True for the rejection produced when a request's AbortSignal fires. */
+export const isAbortError = (err: unknown): boolean => err instanceof DOMException && err.name === "AbortError";
+
+/** Coerce anything thrown by an API call into an ApiRequestError. */
+export function toApiRequestError(err: unknown): ApiRequestError {
+  if (err instanceof ApiRequestError) return err;
+  return new ApiRequestError("network", err instanceof Error ? err.message : DEFAULT_MESSAGES.network);
+}
+
+/**
+ * Message from a FastAPI error body: a plain string, or `{ message }` from
+ * endpoints that return structured details. Its own 422s carry a list of
+ * issues instead, which we don't surface.
+ */
+function errorDetail(detail: unknown): string | null {
+  if (typeof detail === "string") return detail;
+  if (typeof detail === "object" && detail !== null && "message" in detail && typeof detail.message === "string") {
+    return detail.message;
+  }
+  return null;
+}
+
+/**
+ * Fetch JSON from the API and validate it with `schema`, throwing a typed
+ * ApiRequestError on failure.
+ */
+async function requestJson<T>(path: string, init: RequestInit | undefined, schema: Parser<T>): Promise<T> {
+  let resp: Response;
+  try {
+    resp = await fetch(`${API_BASE}${path}`, init);
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new ApiRequestError("network", DEFAULT_MESSAGES.network);
+  }
 
   if (!resp.ok) {
-    const err: ApiError = await resp.json().catch(() => ({
-      detail: "Something went wrong. Try again.",
-    }));
-    throw new Error(err.detail);
+    const kind = kindForStatus(resp.status);
+    const err: { detail?: unknown } = await resp.json().catch(() => ({}));
+    throw new ApiRequestError(kind, errorDetail(err.detail) ?? DEFAULT_MESSAGES[kind], resp.status, {
+      retryAfterMs: kind === "rate_limited" ? parseRetryAfter(resp.headers.get("Retry-After")) : null,
+      detail: err.detail,
+    });
   }
 
-  return resp.json();
+  let body: unknown;
+  try {
+    body = await resp.json();
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new ApiRequestError("malformed", DEFAULT_MESSAGES.malformed, resp.status);
+  }
+  try {
+    return parse(schema, body);
+  } catch (err) {
+    if (!(err instanceof SchemaError)) throw err;
+    throw new ApiRequestError("malformed", `Data format changed: ${err.message}.`, resp.status, {
+      field: err.path,
+    });
+  }
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt. */
+  retries?: number;
+  /** Delay before the first retry; doubles on each subsequent one. */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Called before each retry with its 1-based number. */
+  onRetry?: (attempt: number, retries: number, error: ApiRequestError) => void;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Pass false to fail on the first error. */
+  retry?: RetryOptions | false;
+}
+
+const DEFAULT_RETRY: Required<Omit<RetryOptions, "onRetry">> = {
+  retries: 3,
+  baseDelayMs: 750,
+  maxDelayMs: 8000,
+};
+
+/** Resolve after `ms`, or reject with an AbortError as soon as `signal` fires. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `attempt`, retrying transient failures (503/504/network) with
+ * exponential backoff. Jitter spreads retries from many clients so they
+ * don't hit a recovering scraper in lockstep.
+ */
+async function withRetry<T>(attempt: () => Promise<T>, options: RequestOptions): Promise<T> {
+  const policy = options.retry === false ? { ...DEFAULT_RETRY, retries: 0 } : { ...DEFAULT_RETRY, ...options.retry };
+
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt();
+    } catch (err) {
+      if (!(err instanceof ApiRequestError) || !err.retryable || i >= policy.retries) throw err;
+      // A rate limit asking for a longer wait than we'd ever back off fails now
+      if (err.retryAfterMs != null && err.retryAfterMs > policy.maxDelayMs) throw err;
+      const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** i);
+      // "Equal jitter": wait between half and all of the backoff ceiling,
+      // but never less than the server asked for
+      const delay = Math.max(err.retryAfterMs ?? 0, ceiling / 2 + Math.random() * (ceiling / 2));
+      policy.onRetry?.(i + 1, policy.retries, err);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+/** Cache key for a query; equivalent phrasings and filter orders share a key. */
+function queryCacheKey(query: string | StatsQuery): string {
+  if (typeof query === "string") return `text:${normalizeQueryText(query)}`;
+  const filters = normalizeFilters(query.filters);
+  const canonical = {
+    ...query,
+    filters: {
+      ...filters,
+      timespan: filters.timespan ?? DEFAULT_TIMESPAN,
+      min_rounds: filters.min_rounds ?? DEFAULT_MIN_ROUNDS,
+    },
+  };
+  const sortedFilters = Object.fromEntries(Object.entries(canonical.filters).sort(([a], [b]) => a.localeCompare(b)));
+  return `query:${JSON.stringify([canonical.metric, canonical.sort, canonical.limit, sortedFilters])}`;
+}
+
+export interface CachedQueryResponse {
+  data: QueryResponse;
+  fetchedAt: number;
+}
+
+/** Cached results younger than this are shown without a background refresh. */
+export const REVALIDATE_AFTER_MS = 60_000;
+
+/** Whether a cached response is old enough to refresh in the background. */
+export const needsRevalidation = (cached: CachedQueryResponse, now = Date.now()): boolean =>
+  now - cached.fetchedAt >= REVALIDATE_AFTER_MS;
+
+/**
+ * Last successful response for an equivalent query, if one was cached in
+ * the past day. Callers show it immediately and revalidate with queryStats.
+ */
+export async function getCachedQueryStats(query: string | StatsQuery): Promise<CachedQueryResponse | null> {
+  const entry = await cacheGet<unknown>(queryCacheKey(query));
+  if (!entry) return null;
+  try {
+    // Entries may predate a format change; treat those as misses
+    return { data: parse(queryResponse, entry.value), fetchedAt: entry.storedAt };
+  } catch {
+    return null;
+  }
+}
+
+/** Run a natural language query, or a structured one built programmatically. */
+export async function queryStats(query: string | StatsQuery, options: RequestOptions = {}): Promise<QueryResponse> {
+  const data = await withRetry(
+    () =>
+      requestJson<QueryResponse>(
+        "/api/query",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ query }),
+          signal: options.signal,
+        },
+        queryResponse
+      ),
+    options
+  );
+
+  // Store under the parsed form too, so a chip edit or saved query that
+  // lands on the same filters hits the cache
+  const keys = new Set([queryCacheKey(query), ...(data.query ? [queryCacheKey(data.query)] : [])]);
+  keys.forEach((key) => void cachePut(key, data));
+
+  return data;
+}
+
+export interface PlayerSplit {
+  timespan: Timespan;
+  map?: string;
+  agent?: string;
+}
+
+export type PlayerStatLine = Pick<PlayerResult, "acs" | "kd" | "kast" | "adr" | "kpr" | "hs_pct" | "rounds">;
+
+export interface PlayerSplitResponse {
+  player_id: number;
+  player: string | null;
+  team: string | null;
+  split: PlayerSplit & { min_rounds: number };
+  /** Null when the player has no qualifying rounds on this split. */
+  stats: PlayerStatLine | null;
+}
+
+/** One player's stat line for a single timespan/map/agent split. */
+export function fetchPlayerSplit(playerId: number, split: PlayerSplit): Promise<PlayerSplitResponse> {
+  const params = new URLSearchParams({ timespan: split.timespan });
+  if (split.map) params.set("map", split.map);
+  if (split.agent) params.set("agent", split.agent);
+
+  return requestJson<PlayerSplitResponse>(
+    `/api/player/${playerId}/stats?${params}`,
+    undefined,
+    playerSplitResponse
+  );
 }
 
 export function getAvatarUrl(playerId: number): string {
   return `${API_BASE}/api/player/${playerId}/avatar`;
 }
 
+/**
+ * One player's avatar URL; null when VLR has none. Prefer `loadAvatar` from
+ * lib/avatars, which caches and batches these lookups.
+ */
 export async function fetchAvatarUrl(playerId: number): Promise<string | null> {
+  const body = await requestJson(`/api/player/${playerId}/avatar`, undefined, avatarResponse);
+  return body.avatar_url ?? null;
+}
+
+/** Avatar URLs for several players in one request, keyed by player id. */
+export async function fetchAvatarUrls(playerIds: number[]): Promise<Record<string, string | null>> {
+  const params = new URLSearchParams({ ids: playerIds.join(",") });
+  const body = await requestJson(`/api/players/avatars?${params}`, undefined, avatarBatchResponse);
+  return body.avatars;
+}
+
+export interface ScraperHealth {
+  ok: boolean;
+  rows_returned: number | null;
+  sample_player: string | null;
+  sample_acs: number | null;
+  /** Why the check failed, when it did. */
+  message: string | null;
+  checked_at: string;
+}
+
+/** Liveness of the API itself; throws when it can't be reached. */
+export async function checkApiHealth(): Promise<void> {
+  await requestJson("/api/health", undefined, apiHealthResponse);
+}
+
+/**
+ * Run the backend's known-good test scrape. A failing scrape is reported as
+ * `ok: false` rather than thrown; only an unreachable API throws.
+ */
+export async function checkScraperHealth(): Promise<ScraperHealth> {
   try {
-    const resp = await fetch(`${API_BASE}/api/player/${playerId}/avatar`);
-    if (!resp.ok) return null;
-    const data = await resp.json();
-    return data.avatar_url ?? null;
-  } catch {
-    return null;
+    const { status, ...body } = await requestJson("/api/health/scraper", undefined, scraperHealthResponse);
+    return { ...body, ok: status === "ok", message: null };
+  } catch (err) {
+    if (!(err instanceof ApiRequestError) || err.status === null) throw err;
+    // A failed check reports when it actually ran, which may predate this
+    // request since the backend caches the outcome
+    let checkedAt = new Date().toISOString();
+    try {
+      checkedAt = parse(scraperHealthFailure, err.detail).checked_at;
+    } catch {
+      // Older backends and proxies send no structured detail
+    }
+    return {
+      ok: false,
+      rows_returned: null,
+      sample_player: null,
+      sample_acs: null,
+      message: err.message,
+      checked_at: checkedAt,
+    };
   }
 }
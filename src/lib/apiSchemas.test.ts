@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ApiRequestError, fetchPlayerSplit } from "@/lib/api";
+import { playerSplitResponse, queryResponse } from "@/lib/apiSchemas";
+import { SchemaError, parse } from "@/lib/schema";
+
+const wirePlayer = {
+  rank: 1,
+  player: "aspas",
+  team: null,
+  player_id: "8480",
+  value: "1.42",
+  metric: "K/D",
+  acs: "268.1",
+  kd: 1.42,
+  kast: "76",
+  adr: 171.3,
+  kpr: null,
+  hs_pct: 29,
+  rounds: 412,
+  scraped_from: "vlr.gg",
+};
+
+const wireResponse = {
+  success: true,
+  headline: "Top 5 K/D",
+  ranked_label: "Top 5 K/D — last 60 days",
+  players: [wirePlayer],
+  metadata: null,
+  result_count: 1,
+  query: { metric: "kd", sort: "desc", limit: 5, filters: { region: "la", timespan: "60", min_rounds: 200 } },
+};
+
+describe("queryResponse", () => {
+  it("accepts a response, coercing numeric strings and filling defaults", () => {
+    const parsed = parse(queryResponse, wireResponse);
+    expect(parsed.metadata).toBe("");
+    expect(parsed.players[0]).toEqual({
+      rank: 1,
+      player: "aspas",
+      team: "",
+      player_id: 8480,
+      value: "1.42",
+      metric: "K/D",
+      acs: 268.1,
+      kd: 1.42,
+      kast: 76,
+      adr: 171.3,
+      kpr: null,
+      hs_pct: 29,
+      rounds: 412,
+    });
+    expect(parsed.query.filters).toEqual({ region: "la", timespan: "60", min_rounds: 200 });
+  });
+
+  it.each([
+    ["players[0].rank", { ...wireResponse, players: [{ ...wirePlayer, rank: "first" }] }],
+    ["query", { ...wireResponse, query: undefined }],
+    ["query.metric", { ...wireResponse, query: { ...wireResponse.query, metric: "rating" } }],
+    ["query.filters.timespan", { ...wireResponse, query: { ...wireResponse.query, filters: { timespan: "7" } } }],
+  ])("rejects a bad %s", (path, payload) => {
+    let error: unknown;
+    try {
+      parse(queryResponse, payload);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(SchemaError);
+    expect(error).toMatchObject({ path });
+  });
+});
+
+describe("requests with a malformed body", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const respondWith = (body: unknown) =>
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify(body), { status: 200 })));
+
+  it("throws a malformed ApiRequestError naming the field", async () => {
+    respondWith({
+      player_id: 8480,
+      player: "aspas",
+      team: "LEV",
+      split: { timespan: "60", min_rounds: 50 },
+      stats: { acs: "n/a", kd: 1.4, kast: 76, adr: 171, kpr: 0.9, hs_pct: 29, rounds: 412 },
+    });
+
+    const err = await fetchPlayerSplit(8480, { timespan: "60" }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(ApiRequestError);
+    expect(err).toMatchObject({
+      kind: "malformed",
+      status: 200,
+      field: "stats.acs",
+      message: 'Data format changed: stats.acs should be a number, got "n/a".',
+    });
+  });
+
+  it("passes a valid body through the schema", async () => {
+    const body = { player_id: 8480, player: null, team: null, split: { timespan: "30", min_rounds: 50 }, stats: null };
+    respondWith(body);
+    await expect(fetchPlayerSplit(8480, { timespan: "30" })).resolves.toEqual(parse(playerSplitResponse, body));
+  });
+});
@@ -0,0 +1,112 @@
+import type {
+  PlayerResult,
+  PlayerSplitResponse,
+  PlayerStatLine,
+  QueryResponse,
+  ScraperHealth,
+  StatsQuery,
+  StatsQueryFilters,
+} from "@/lib/api";
+import { METRICS, REGIONS, ROLES, TIMESPANS } from "@/lib/statsQuery";
+import {
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  withDefault,
+  type Parser,
+} from "@/lib/schema";
+
+// Runtime mirrors of the response types in api.ts — keep the two in sync.
+
+const statLine: { [K in keyof PlayerStatLine]: Parser<PlayerStatLine[K]> } = {
+  acs: nullable(number),
+  kd: nullable(number),
+  kast: nullable(number),
+  adr: nullable(number),
+  kpr: nullable(number),
+  hs_pct: nullable(number),
+  rounds: nullable(number),
+};
+
+const filters = object<StatsQueryFilters>({
+  agent: optional(string),
+  role: optional(oneOf(ROLES)),
+  map: optional(string),
+  region: optional(oneOf(REGIONS)),
+  timespan: optional(oneOf(TIMESPANS)),
+  min_rounds: optional(number),
+});
+
+export const statsQuery = object<StatsQuery>({
+  metric: oneOf(METRICS),
+  sort: oneOf(["asc", "desc"] as const),
+  limit: number,
+  filters,
+});
+
+export const playerResult = object<PlayerResult>({
+  rank: number,
+  player: string,
+  // Scraped rows without a team come through as "" or null
+  team: withDefault(string, ""),
+  player_id: nullable(number),
+  value: string,
+  metric: string,
+  ...statLine,
+});
+
+export const queryResponse = object<QueryResponse>({
+  success: boolean,
+  headline: string,
+  ranked_label: nullable(string),
+  players: array(playerResult),
+  metadata: withDefault(string, ""),
+  result_count: number,
+  query: statsQuery,
+});
+
+export const playerSplitResponse = object<PlayerSplitResponse>({
+  player_id: number,
+  player: nullable(string),
+  team: nullable(string),
+  split: object<PlayerSplitResponse["split"]>({
+    timespan: oneOf(TIMESPANS),
+    map: optional(string),
+    agent: optional(string),
+    min_rounds: number,
+  }),
+  stats: nullable(object<PlayerStatLine>(statLine)),
+});
+
+export const avatarResponse = object<{ avatar_url: string | null }>({
+  avatar_url: nullable(string),
+});
+
+export const avatarBatchResponse = object<{ avatars: Record<string, string | null> }>({
+  avatars: record(nullable(string)),
+});
+
+export const apiHealthResponse = object<{ status: string }>({
+  status: string,
+});
+
+export const scraperHealthResponse = object<Omit<ScraperHealth, "ok" | "message"> & { status: string }>({
+  status: string,
+  rows_returned: nullable(number),
+  sample_player: nullable(string),
+  sample_acs: nullable(number),
+  checked_at: string,
+});
+
+/** `detail` of the scraper check's 503: the failure, as cached by the backend. */
+export const scraperHealthFailure = object<{ status: string; message: string; checked_at: string }>({
+  status: string,
+  message: string,
+  checked_at: string,
+});
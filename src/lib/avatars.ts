@@ -0,0 +1,128 @@
+/**
+ * Shared avatar lookup service. Every `PlayerAvatar` goes through here so a
+ * long result list costs a handful of requests instead of one per row:
+ *
+ * - lookups are deduped while in flight and cached for the session;
+ * - results, including "no avatar", persist in localStorage with an expiry;
+ * - ids requested in the same tick are batched via `/api/players/avatars`,
+ *   falling back to per-player requests when that endpoint is missing;
+ * - at most MAX_CONCURRENT avatar requests run at once.
+ */
+
+import { ApiRequestError, fetchAvatarUrl, fetchAvatarUrls } from "@/lib/api";
+import { createLimiter } from "@/lib/concurrency";
+
+const STORAGE_KEY = "valmuse-avatars";
+const FOUND_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Players without an avatar may upload one; re-check sooner
+const MISSING_TTL_MS = 6 * 60 * 60 * 1000;
+const MAX_CONCURRENT = 4;
+/** Matches MAX_AVATAR_BATCH in backend/main.py. */
+const BATCH_SIZE = 50;
+const BATCH_WINDOW_MS = 10;
+
+interface StoredAvatar {
+  url: string | null;
+  expires: number;
+}
+
+const session = new Map<number, string | null>();
+const inFlight = new Map<number, Promise<string | null>>();
+const waiting = new Map<number, (url: string | null) => void>();
+/** Ids waiting for the next batch to be sent. */
+const queued = new Set<number>();
+let batchTimer: ReturnType<typeof setTimeout> | null = null;
+/** Unknown until the first batch request answers. */
+let batchSupported: boolean | null = null;
+
+function loadStored(): Record<string, StoredAvatar> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") as Record<string, StoredAvatar>;
+    const now = Date.now();
+    return Object.fromEntries(Object.entries(parsed).filter(([, v]) => v && v.expires > now));
+  } catch {
+    return {};
+  }
+}
+
+let stored: Record<string, StoredAvatar> | null = null;
+
+const getStored = () => (stored ??= loadStored());
+
+function remember(playerId: number, url: string | null) {
+  session.set(playerId, url);
+  const entries = getStored();
+  entries[playerId] = { url, expires: Date.now() + (url ? FOUND_TTL_MS : MISSING_TTL_MS) };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage full or unavailable — the session cache still applies
+  }
+}
+
+const limited = createLimiter(MAX_CONCURRENT);
+
+function settle(playerId: number, url: string | null, cache: boolean) {
+  if (cache) remember(playerId, url);
+  inFlight.delete(playerId);
+  waiting.get(playerId)?.(url);
+  waiting.delete(playerId);
+}
+
+async function fetchOne(playerId: number) {
+  try {
+    settle(playerId, await limited(() => fetchAvatarUrl(playerId)), true);
+  } catch {
+    // Transient failure: show the placeholder but let a later mount retry
+    settle(playerId, null, false);
+  }
+}
+
+async function fetchBatch(ids: number[]) {
+  try {
+    const urls = await limited(() => fetchAvatarUrls(ids));
+    batchSupported = true;
+    ids.forEach((id) => settle(id, urls[id] ?? null, true));
+  } catch (err) {
+    // Older backends don't have the batch endpoint
+    if (err instanceof ApiRequestError && (err.status === 404 || err.status === 405)) {
+      batchSupported = false;
+      await Promise.all(ids.map(fetchOne));
+    } else {
+      ids.forEach((id) => settle(id, null, false));
+    }
+  }
+}
+
+function flush() {
+  batchTimer = null;
+  const ids = [...queued];
+  queued.clear();
+  if (batchSupported === false) {
+    ids.forEach(fetchOne);
+    return;
+  }
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    fetchBatch(ids.slice(i, i + BATCH_SIZE));
+  }
+}
+
+/** Avatar URL for a player, or null when there is none (or it failed to load). */
+export function loadAvatar(playerId: number): Promise<string | null> {
+  if (session.has(playerId)) return Promise.resolve(session.get(playerId) ?? null);
+
+  const cached = getStored()[playerId];
+  if (cached && cached.expires > Date.now()) {
+    session.set(playerId, cached.url);
+    return Promise.resolve(cached.url);
+  }
+
+  const pending = inFlight.get(playerId);
+  if (pending) return pending;
+
+  const promise = new Promise<string | null>((resolve) => waiting.set(playerId, resolve));
+  inFlight.set(playerId, promise);
+  queued.add(playerId);
+  batchTimer ??= setTimeout(flush, BATCH_WINDOW_MS);
+  return promise;
+}
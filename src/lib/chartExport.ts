@@ -0,0 +1,138 @@
+/**
+ * Turn a rendered recharts SVG into a standalone file. Charts are coloured
+ * through CSS variables and classes that don't exist outside the page, so
+ * the computed paint of every element is inlined into the copy.
+ */
+
+export interface ChartLegendItem {
+  label: string;
+  color: string;
+}
+
+/** Colours may be any CSS colour, including `var(--…)` expressions. */
+export interface ChartExportOptions {
+  /** Solid background, so the file reads the same on any viewer. */
+  background: string;
+  /** Text colour for the legend. */
+  foreground: string;
+  /** Drawn under the chart, since recharts legends are HTML rather than SVG. */
+  legend?: ChartLegendItem[];
+}
+
+export interface ExportedChart {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+const INLINED_PROPERTIES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-opacity",
+  "stroke-width",
+  "stroke-dasharray",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+] as const;
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const LEGEND_ROW_HEIGHT = 22;
+const LEGEND_PADDING = 16;
+
+/** Resolve a CSS colour as it computes inside `scope`, where chart variables are defined. */
+function resolveColor(color: string, scope: Element): string {
+  const probe = document.createElement("span");
+  probe.style.color = color;
+  scope.append(probe);
+  const resolved = getComputedStyle(probe).color;
+  probe.remove();
+  return resolved;
+}
+
+/** Serialise `svg` with its computed styles, background and legend baked in. */
+export function chartToSvg(svg: SVGSVGElement, options: ChartExportOptions): ExportedChart {
+  const { width, height: chartHeight } = svg.getBoundingClientRect();
+  const legend = options.legend ?? [];
+  const legendHeight = legend.length ? LEGEND_PADDING * 2 + legend.length * LEGEND_ROW_HEIGHT : 0;
+  const height = chartHeight + legendHeight;
+  const scope = svg.parentElement ?? document.body;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const sources = [svg, ...svg.querySelectorAll("*")];
+  const targets = [clone, ...clone.querySelectorAll("*")];
+  sources.forEach((source, i) => {
+    const computed = getComputedStyle(source);
+    const target = targets[i] as SVGElement;
+    target.removeAttribute("class");
+    for (const property of INLINED_PROPERTIES) {
+      const value = computed.getPropertyValue(property);
+      if (value) target.style.setProperty(property, value);
+    }
+  });
+
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  clone.setAttribute("viewBox", `0 0 ${width} ${height}`);
+
+  const background = document.createElementNS(SVG_NS, "rect");
+  background.setAttribute("width", "100%");
+  background.setAttribute("height", "100%");
+  background.setAttribute("fill", resolveColor(options.background, scope));
+  clone.insertBefore(background, clone.firstChild);
+
+  const foreground = resolveColor(options.foreground, scope);
+  legend.forEach((item, i) => {
+    const y = chartHeight + LEGEND_PADDING + i * LEGEND_ROW_HEIGHT;
+    const swatch = document.createElementNS(SVG_NS, "rect");
+    swatch.setAttribute("x", String(LEGEND_PADDING));
+    swatch.setAttribute("y", String(y + 4));
+    swatch.setAttribute("width", "12");
+    swatch.setAttribute("height", "12");
+    swatch.setAttribute("rx", "2");
+    swatch.setAttribute("fill", resolveColor(item.color, scope));
+    const text = document.createElementNS(SVG_NS, "text");
+    text.setAttribute("x", String(LEGEND_PADDING + 20));
+    text.setAttribute("y", String(y + 14));
+    text.setAttribute("fill", foreground);
+    text.setAttribute("font-family", "Inter, system-ui, sans-serif");
+    text.setAttribute("font-size", "13");
+    text.textContent = item.label;
+    clone.append(swatch, text);
+  });
+
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+}
+
+/** Rasterise exported SVG markup to a PNG at `scale`× for crisp sharing. */
+export function svgToPng(markup: string, width: number, height: number, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml" }));
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas isn't supported in this browser"));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Couldn't encode the image"))), "image/png");
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Couldn't render the chart"));
+    };
+    img.src = url;
+  });
+}
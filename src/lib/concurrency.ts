@@ -0,0 +1,16 @@
+/** FIFO concurrency limiter: at most `max` of the wrapped tasks run at once. */
+export function createLimiter(max: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  return async function limited<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= max) await new Promise<void>((resolve) => queue.push(resolve));
+    active++;
+    try {
+      return await task();
+    } finally {
+      active--;
+      queue.shift()?.();
+    }
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { PlayerResult } from "@/lib/api";
+import { type ExportSource, formatExport } from "@/lib/exportTable";
+import { DEFAULT_SORT } from "@/lib/playerStats";
+
+const player = (overrides: Partial<PlayerResult>): PlayerResult => ({
+  rank: 1,
+  player: "aspas",
+  team: "LEV",
+  player_id: 8480,
+  value: "1.42",
+  metric: "K/D",
+  acs: null,
+  kd: null,
+  kast: null,
+  adr: null,
+  kpr: null,
+  hs_pct: null,
+  rounds: null,
+  ...overrides,
+});
+
+const source = (players: PlayerResult[]): ExportSource => ({
+  title: "Top 5 K/D",
+  queryText: "best kd",
+  query: null,
+  filters: "",
+  fetchedAt: 0,
+  metricLabel: "K/D",
+  sort: DEFAULT_SORT,
+  players,
+  columns: [],
+});
+
+// Player rows only, without the "#" header lines and the column header
+const rows = (players: PlayerResult[]) =>
+  formatExport(source(players), "csv")
+    .split("\n")
+    .filter((line) => !line.startsWith("# "))
+    .slice(1)
+    .join("\n");
+
+describe("CSV export", () => {
+  it("quotes cells containing a carriage return", () => {
+    expect(rows([player({ player: "as\rpas" })])).toBe('1,"as\rpas",LEV,1.42');
+  });
+
+  it("quotes cells containing commas, quotes and newlines", () => {
+    expect(rows([player({ player: 'a,"b"', team: "Team\nX" })])).toBe('1,"a,""b""","Team\nX",1.42');
+  });
+
+  it.each([
+    ["=1+1", "1,'=1+1,LEV,1.42"],
+    ["+cmd", "1,'+cmd,LEV,1.42"],
+    ["-sum", "1,'-sum,LEV,1.42"],
+    ["@SUM(A1)", "1,'@SUM(A1),LEV,1.42"],
+    ['=HYPERLINK("x")', `1,"'=HYPERLINK(""x"")",LEV,1.42`],
+  ])("neutralises a cell starting a formula: %s", (name, expected) => {
+    expect(rows([player({ player: name })])).toBe(expected);
+  });
+
+  it("leaves negative numbers numeric", () => {
+    expect(rows([player({ value: "-0.5" })])).toBe("1,aspas,LEV,-0.5");
+  });
+});
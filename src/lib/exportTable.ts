@@ -0,0 +1,201 @@
+import type { PlayerResult, StatsQuery } from "@/lib/api";
+import { STAT_COLUMNS, formatStat, type SortState, type StatColumn } from "@/lib/playerStats";
+
+/** Everything an export needs, taken from the table as currently displayed. */
+export interface ExportSource {
+  title: string;
+  /** Query text as searched, or re-rendered from the structured query. */
+  queryText: string;
+  query: StatsQuery | null;
+  /** Human-readable filter summary (the response metadata line). */
+  filters: string;
+  fetchedAt: number;
+  metricLabel: string;
+  sort: SortState;
+  /** Players in displayed order. */
+  players: PlayerResult[];
+  /** Visible stat columns in displayed order. */
+  columns: StatColumn[];
+}
+
+export type ExportFormat = "csv" | "json" | "markdown" | "discord";
+
+interface Cell {
+  header: string;
+  raw: (p: PlayerResult) => string | number | null;
+  display: (p: PlayerResult) => string;
+}
+
+function cells(source: ExportSource): Cell[] {
+  return [
+    { header: "#", raw: (p) => p.rank, display: (p) => String(p.rank) },
+    { header: "Player", raw: (p) => p.player, display: (p) => p.player },
+    { header: "Team", raw: (p) => p.team, display: (p) => p.team ?? "" },
+    { header: source.metricLabel, raw: (p) => p.value, display: (p) => p.value },
+    ...source.columns.map((c) => ({
+      header: c.label,
+      raw: (p: PlayerResult) => p[c.key],
+      display: (p: PlayerResult) => formatStat(c, p[c.key]),
+    })),
+  ];
+}
+
+function sortLabel(source: ExportSource): string {
+  if (source.sort.key === "rank") return "server rank";
+  const column = STAT_COLUMNS.find((c) => c.key === source.sort.key);
+  return `${column?.label ?? source.sort.key} (${source.sort.direction})`;
+}
+
+/** Header lines shared by every text format. */
+function headerLines(source: ExportSource): string[] {
+  return [
+    `Query: ${source.queryText}`,
+    `Filters: ${source.filters || "none"}`,
+    `Sorted by: ${sortLabel(source)}`,
+    `Fetched: ${new Date(source.fetchedAt).toISOString()}`,
+  ];
+}
+
+// Spreadsheets evaluate cells starting with these as formulas
+const FORMULA_LEAD = /^[=+\-@]/;
+
+const csvEscape = (value: string | number | null): string => {
+  let text = value == null ? "" : String(value);
+  // Numbers (and numeric strings like a negative value) are safe and must stay numeric
+  if (typeof value === "string" && FORMULA_LEAD.test(text) && !Number.isFinite(Number(text))) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function toCsv(source: ExportSource): string {
+  const cols = cells(source);
+  return [
+    ...[source.title, ...headerLines(source)].map((line) => `# ${line}`),
+    cols.map((c) => csvEscape(c.header)).join(","),
+    ...source.players.map((p) => cols.map((c) => csvEscape(c.raw(p))).join(",")),
+  ].join("\n");
+}
+
+function toJson(source: ExportSource): string {
+  return JSON.stringify(
+    {
+      title: source.title,
+      query: source.queryText,
+      structured_query: source.query,
+      filters: source.filters,
+      sort: source.sort,
+      fetched_at: new Date(source.fetchedAt).toISOString(),
+      players: source.players.map((p) => ({
+        rank: p.rank,
+        player_id: p.player_id,
+        player: p.player,
+        team: p.team,
+        metric: p.metric,
+        value: p.value,
+        ...Object.fromEntries(source.columns.map((c) => [c.key, p[c.key]])),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+const mdEscape = (text: string) => text.replace(/\|/g, "\\|");
+
+function toMarkdown(source: ExportSource): string {
+  const cols = cells(source);
+  return [
+    `**${mdEscape(source.title)}**`,
+    "",
+    ...headerLines(source).map((line) => `> ${mdEscape(line)}`),
+    "",
+    `| ${cols.map((c) => mdEscape(c.header)).join(" | ")} |`,
+    `| ${cols.map((c, i) => (i < 3 ? "---" : "---:")).join(" | ")} |`,
+    ...source.players.map((p) => `| ${cols.map((c) => mdEscape(c.display(p))).join(" | ")} |`),
+  ].join("\n");
+}
+
+/** Discord doesn't render Markdown tables, so pad a monospace block instead. */
+function toDiscord(source: ExportSource): string {
+  const cols = cells(source);
+  const grid = [cols.map((c) => c.header), ...source.players.map((p) => cols.map((c) => c.display(p)))];
+  const widths = cols.map((_, i) => Math.max(...grid.map((row) => row[i].length)));
+  const line = (row: string[]) =>
+    row.map((cell, i) => (i < 3 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join("  ").trimEnd();
+
+  return [
+    `**${source.title}**`,
+    `-# ${source.queryText} · ${source.filters || "no filters"} · sorted by ${sortLabel(source)}`,
+    "```",
+    line(grid[0]),
+    widths.map((w) => "-".repeat(w)).join("  "),
+    ...grid.slice(1).map(line),
+    "```",
+  ].join("\n");
+}
+
+export function formatExport(source: ExportSource, format: ExportFormat): string {
+  switch (format) {
+    case "csv":
+      return toCsv(source);
+    case "json":
+      return toJson(source);
+    case "markdown":
+      return toMarkdown(source);
+    case "discord":
+      return toDiscord(source);
+  }
+}
+
+export interface ExportDownload {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_DOWNLOADS: ExportDownload[] = [
+  { format: "csv", label: "Download CSV", extension: "csv", mimeType: "text/csv" },
+  { format: "json", label: "Download JSON", extension: "json", mimeType: "application/json" },
+];
+
+export const EXPORT_COPIES: { format: ExportFormat; label: string; done: string }[] = [
+  { format: "markdown", label: "Copy as Markdown", done: "Copied Markdown table" },
+  { format: "discord", label: "Copy for Discord", done: "Copied Discord table" },
+];
+
+/** File name like "valmuse-top-5-acs-2026-10-19.csv". */
+export function exportFileName(title: string, timestamp: number, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60);
+  const date = new Date(timestamp).toISOString().slice(0, 10);
+  return `valmuse-${slug || "results"}-${date}.${extension}`;
+}
+
+/** Trigger a browser download of in-memory content. */
+export function downloadFile(fileName: string, content: string | Blob, mimeType: string) {
+  const blob = typeof content === "string" ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Download the table in one of the EXPORT_DOWNLOADS formats. */
+export function downloadExport(source: ExportSource, download: ExportDownload) {
+  downloadFile(
+    exportFileName(source.title, source.fetchedAt, download.extension),
+    formatExport(source, download.format),
+    download.mimeType
+  );
+}
+
+/** Copy the table to the clipboard; rejects when clipboard access is denied. */
+export function copyExport(source: ExportSource, format: ExportFormat): Promise<void> {
+  return navigator.clipboard.writeText(formatExport(source, format));
+}
@@ -0,0 +1,66 @@
+import { useSyncExternalStore } from "react";
+
+export interface PersistentStore<T> {
+  get: () => T;
+  set: (next: T | ((prev: T) => T)) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * A tiny module-level store mirrored to localStorage, for client state that
+ * outlives a single page (compare selection, history, saved queries…).
+ * `revive` validates whatever was stored and returns null to fall back to
+ * the initial value.
+ */
+export function createPersistentStore<T>(
+  storageKey: string,
+  initial: T,
+  revive: (stored: unknown) => T | null = (stored) => stored as T
+): PersistentStore<T> {
+  const listeners = new Set<() => void>();
+
+  const load = (): T => {
+    if (typeof window === "undefined") return initial;
+    try {
+      const raw = localStorage.getItem(storageKey);
+      return raw == null ? initial : revive(JSON.parse(raw)) ?? initial;
+    } catch {
+      return initial;
+    }
+  };
+
+  let state = load();
+
+  const set = (next: T | ((prev: T) => T)) => {
+    state = typeof next === "function" ? (next as (prev: T) => T)(state) : next;
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(state));
+    } catch {
+      // Storage full or unavailable — keep the in-memory copy
+    }
+    listeners.forEach((l) => l());
+  };
+
+  // Keep other tabs in sync
+  if (typeof window !== "undefined") {
+    window.addEventListener("storage", (e) => {
+      if (e.key === storageKey) {
+        state = load();
+        listeners.forEach((l) => l());
+      }
+    });
+  }
+
+  return {
+    get: () => state,
+    set,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+export function usePersistentStore<T>(store: PersistentStore<T>): T {
+  return useSyncExternalStore(store.subscribe, store.get, store.get);
+}
@@ -0,0 +1,30 @@
+/**
+ * Shared player split loader. Every split is its own VLR stats page on the
+ * backend, and a profile's map and agent tabs ask for one per row, so:
+ *
+ * - identical lookups are deduped while in flight and cached for the session;
+ * - at most MAX_CONCURRENT split requests run at once.
+ */
+
+import { fetchPlayerSplit, type PlayerSplit, type PlayerSplitResponse } from "@/lib/api";
+import { createLimiter } from "@/lib/concurrency";
+
+const MAX_CONCURRENT = 3;
+
+const limited = createLimiter(MAX_CONCURRENT);
+const loaded = new Map<string, Promise<PlayerSplitResponse>>();
+
+const splitKey = (playerId: number, split: PlayerSplit) =>
+  [playerId, split.timespan, split.map ?? "", split.agent ?? ""].join("|");
+
+/** One player's stat line for a split; failures aren't cached so a later call retries. */
+export function loadPlayerSplit(playerId: number, split: PlayerSplit): Promise<PlayerSplitResponse> {
+  const key = splitKey(playerId, split);
+  const existing = loaded.get(key);
+  if (existing) return existing;
+
+  const promise = limited(() => fetchPlayerSplit(playerId, split));
+  loaded.set(key, promise);
+  promise.catch(() => loaded.delete(key));
+  return promise;
+}
@@ -0,0 +1,81 @@
+import type { PlayerResult, StatMetric } from "@/lib/api";
+
+/** Numeric fields on PlayerResult the table can sort by. */
+export type StatKey = "acs" | "kd" | "kast" | "adr" | "kpr" | "hs_pct" | "rounds";
+
+/** "rank" restores the order the server returned. */
+export type SortKey = StatKey | "rank";
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortState {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+export interface StatColumn {
+  key: StatKey;
+  label: string;
+  /** CSS grid track size for the column. */
+  width: string;
+  format: (value: number) => string;
+  /** De-emphasised columns (sample size rather than performance). */
+  muted?: boolean;
+}
+
+/** Every per-player stat the table can show, in display order. */
+export const STAT_COLUMNS: StatColumn[] = [
+  { key: "acs", label: "ACS", width: "5rem", format: (v) => v.toFixed(1) },
+  { key: "kd", label: "K/D", width: "5rem", format: (v) => v.toFixed(2) },
+  { key: "kast", label: "KAST", width: "5rem", format: (v) => `${v.toFixed(1)}%` },
+  { key: "adr", label: "ADR", width: "5rem", format: (v) => v.toFixed(1) },
+  { key: "kpr", label: "KPR", width: "4.5rem", format: (v) => v.toFixed(2) },
+  { key: "hs_pct", label: "HS%", width: "4.5rem", format: (v) => `${v.toFixed(1)}%` },
+  { key: "rounds", label: "Rnd", width: "5rem", format: (v) => String(v), muted: true },
+];
+
+/** Performance stats, i.e. every column except sample size. */
+export const PERFORMANCE_STATS: StatKey[] = ["acs", "kd", "kast", "adr", "kpr", "hs_pct"];
+
+export const DEFAULT_VISIBLE_COLUMNS: StatKey[] = ["kd", "kast", "adr", "hs_pct", "rounds"];
+
+export const formatStat = (column: StatColumn, value: number | null): string =>
+  value != null ? column.format(value) : "—";
+
+export const DEFAULT_SORT: SortState = { key: "rank", direction: "asc" };
+
+/** PlayerResult field holding the queried metric, if the table has one ("kills" isn't scraped). */
+export function metricStatKey(metric: StatMetric | undefined): StatKey | null {
+  return metric && metric !== "kills" ? metric : null;
+}
+
+/** Clicking the active column flips direction; a new column starts high-to-low. */
+export function nextSort(current: SortState, key: SortKey): SortState {
+  if (current.key === key) {
+    return { key, direction: current.direction === "asc" ? "desc" : "asc" };
+  }
+  return { key, direction: key === "rank" ? "asc" : "desc" };
+}
+
+/**
+ * Sort players client-side and renumber their rank to match the new order.
+ * Missing values always sink to the bottom, whichever the direction.
+ */
+export function sortPlayers(players: PlayerResult[], sort: SortState): PlayerResult[] {
+  const sign = sort.direction === "asc" ? 1 : -1;
+
+  const sorted = [...players].sort((a, b) => {
+    const av = a[sort.key];
+    const bv = b[sort.key];
+    if (av == null && bv == null) return a.rank - b.rank;
+    if (av == null) return 1;
+    if (bv == null) return -1;
+    return (av - bv) * sign || a.rank - b.rank;
+  });
+
+  return sorted.map((p, i) => ({ ...p, rank: i + 1 }));
+}
+
+/** Stable identity for a player across result sets (VLR id, else name). */
+export const playerKey = (p: Pick<PlayerResult, "player_id" | "player">): string =>
+  p.player_id != null ? String(p.player_id) : p.player.toLowerCase();
@@ -0,0 +1,111 @@
+/**
+ * Where a value sits within a pool of players: percentile rank, z-score,
+ * and a diverging heat colour for either.
+ */
+
+export type ValueScale = "raw" | "percentile" | "z";
+
+export const VALUE_SCALE_LABELS: Record<ValueScale, string> = {
+  raw: "Raw values",
+  percentile: "Percentile",
+  z: "Z-score",
+};
+
+export interface PoolSummary {
+  /** Known values, ascending. */
+  sorted: number[];
+  mean: number;
+  median: number;
+  sd: number;
+}
+
+/** Summary of the non-null values, or null for an empty pool. */
+export function summarizePool(values: (number | null)[]): PoolSummary | null {
+  const sorted = values.filter((v): v is number => v != null).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length;
+  return { sorted, mean, median, sd: Math.sqrt(variance) };
+}
+
+/** Percentile rank (0–100) using the mid-rank for ties, so the pool median lands on 50. */
+export function percentileOf(value: number, pool: PoolSummary): number {
+  let below = 0;
+  let equal = 0;
+  for (const v of pool.sorted) {
+    if (v < value) below++;
+    else if (v === value) equal++;
+  }
+  return ((below + equal / 2) / pool.sorted.length) * 100;
+}
+
+/** Standard score; 0 when every value in the pool is the same. */
+export function zScoreOf(value: number, pool: PoolSummary): number {
+  return pool.sd > 0 ? (value - pool.mean) / pool.sd : 0;
+}
+
+/** Position in the pool on a -1…1 scale, for colouring. */
+export function heatOf(value: number, pool: PoolSummary, scale: ValueScale): number {
+  const score = scale === "z" ? zScoreOf(value, pool) / 2 : (percentileOf(value, pool) - 50) / 50;
+  return Math.max(-1, Math.min(1, score));
+}
+
+/** Diverging background: blue below the middle of the pool, red above. */
+export function heatColor(heat: number): string {
+  const hue = heat >= 0 ? "var(--chart-1)" : "var(--chart-2)";
+  return `hsl(${hue} / ${(Math.abs(heat) * 0.35).toFixed(3)})`;
+}
+
+const ORDINAL_SUFFIXES: Record<number, string> = { 1: "st", 2: "nd", 3: "rd" };
+
+const ordinal = (n: number): string => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : (ORDINAL_SUFFIXES[n % 10] ?? "th");
+  return `${n}${suffix}`;
+};
+
+/** "87th" or "+1.24", as shown in place of the raw value. */
+export function formatScaled(value: number, pool: PoolSummary, scale: Exclude<ValueScale, "raw">): string {
+  if (scale === "percentile") return ordinal(Math.round(percentileOf(value, pool)));
+  const z = zScoreOf(value, pool);
+  return `${z >= 0 ? "+" : "−"}${Math.abs(z).toFixed(2)}`;
+}
+
+export interface HistogramBin<T> {
+  /** Inclusive lower edge. */
+  from: number;
+  /** Exclusive upper edge, except for the last bin. */
+  to: number;
+  items: T[];
+}
+
+/**
+ * Equal-width bins over the items with a value: about √n of them, clamped
+ * to 4–12 so small pools still show a shape and big ones stay readable.
+ */
+export function histogramBins<T>(items: T[], valueOf: (item: T) => number | null): HistogramBin<T>[] {
+  const known = items.flatMap((item) => {
+    const value = valueOf(item);
+    return value == null ? [] : [{ item, value }];
+  });
+  if (known.length === 0) return [];
+
+  const values = known.map((k) => k.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) return [{ from: min, to: max, items: known.map((k) => k.item) }];
+
+  const binCount = Math.min(12, Math.max(4, Math.round(Math.sqrt(known.length))));
+  const width = (max - min) / binCount;
+  const bins: HistogramBin<T>[] = Array.from({ length: binCount }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    items: [],
+  }));
+  for (const { item, value } of known) {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].items.push(item);
+  }
+  return bins;
+}
@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MAX_CACHE_AGE_MS, cacheGet, cachePut } from "@/lib/queryCache";
+
+// jsdom has no IndexedDB, so only the in-memory layer is exercised here
+describe("queryCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("serves entries until they expire", async () => {
+    vi.useFakeTimers({ now: 0 });
+    await cachePut("fresh", { n: 1 });
+    vi.setSystemTime(MAX_CACHE_AGE_MS);
+    expect((await cacheGet<{ n: number }>("fresh"))?.value).toEqual({ n: 1 });
+  });
+
+  it("drops an expired entry instead of keeping it around", async () => {
+    vi.useFakeTimers({ now: 0 });
+    await cachePut("stale", { n: 1 });
+    vi.setSystemTime(MAX_CACHE_AGE_MS + 1);
+    expect(await cacheGet("stale")).toBeUndefined();
+
+    // Had the entry survived, turning the clock back would serve it again
+    vi.setSystemTime(0);
+    expect(await cacheGet("stale")).toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Small persistent key-value cache for API responses: an in-memory Map in
+ * front of IndexedDB, so hits within a session are synchronous-fast and
+ * results survive reloads. Storage failures degrade to memory-only.
+ */
+
+const DB_NAME = "valmuse";
+const STORE_NAME = "responses";
+const MAX_ENTRIES = 100;
+/** Entries older than this are never served, even as stale data. */
+export const MAX_CACHE_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface CacheEntry<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+}
+
+const memory = new Map<string, CacheEntry<unknown>>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") return resolve(null);
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+        store.createIndex("storedAt", "storedAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      // Private browsing and locked-down profiles can refuse IndexedDB
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+  return openDb().then(
+    (db) =>
+      new Promise((resolve) => {
+        if (!db) return resolve(undefined);
+        try {
+          const request = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => resolve(undefined);
+        } catch {
+          resolve(undefined);
+        }
+      })
+  );
+}
+
+const isExpired = (entry: CacheEntry<unknown>) => Date.now() - entry.storedAt > MAX_CACHE_AGE_MS;
+
+export async function cacheGet<T>(key: string): Promise<CacheEntry<T> | undefined> {
+  const hit = memory.get(key) ?? (await run("readonly", (store) => store.get(key)));
+  if (!hit) return undefined;
+  if (isExpired(hit)) {
+    memory.delete(key);
+    void run("readwrite", (store) => store.delete(key));
+    return undefined;
+  }
+  memory.set(key, hit);
+  return hit as CacheEntry<T>;
+}
+
+export async function cachePut<T>(key: string, value: T): Promise<void> {
+  const entry: CacheEntry<T> = { key, value, storedAt: Date.now() };
+  memory.set(key, entry);
+  await run("readwrite", (store) => store.put(entry));
+  await prune();
+}
+
+/** Drop the oldest entries beyond MAX_ENTRIES. */
+async function prune(): Promise<void> {
+  if (memory.size > MAX_ENTRIES) {
+    const oldest = [...memory.values()].sort((a, b) => a.storedAt - b.storedAt);
+    oldest.slice(0, memory.size - MAX_ENTRIES).forEach((e) => memory.delete(e.key));
+  }
+
+  const count = await run("readonly", (store) => store.count());
+  if (count === undefined || count <= MAX_ENTRIES) return;
+  const excess = count - MAX_ENTRIES;
+  const keys = await run("readonly", (store) => store.index("storedAt").getAllKeys(null, excess));
+  for (const key of keys ?? []) {
+    await run("readwrite", (store) => store.delete(key));
+  }
+}
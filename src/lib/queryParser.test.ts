@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { StatsQuery } from "@/lib/api";
+import { describeQuery, parseQuery } from "@/lib/queryParser";
+import { toQueryText } from "@/lib/statsQuery";
+
+// Expected values are backend/nlp_parser.py's `parse` output for the same text;
+// when the backend rules change, regenerate them and update both parsers
+const BACKEND_CASES: [string, StatsQuery][] = [
+  [
+    "top 10 jett players na last 30 days",
+    { metric: "acs", sort: "desc", limit: 10, filters: { agent: "Jett", region: "na", timespan: "30", min_rounds: 200 } },
+  ],
+  [
+    "best kd duelists in emea",
+    { metric: "kd", sort: "desc", limit: 5, filters: { role: "duelist", region: "eu", timespan: "60", min_rounds: 200 } },
+  ],
+  [
+    "highest headshot percentage on icebox past 90 days",
+    { metric: "hs_pct", sort: "desc", limit: 5, filters: { map: "Icebox", timespan: "90", min_rounds: 200 } },
+  ],
+  [
+    "Top 5 EMEA Duelists",
+    { metric: "acs", sort: "desc", limit: 5, filters: { role: "duelist", region: "eu", timespan: "60", min_rounds: 200 } },
+  ],
+  [
+    "most kills raze players in north america",
+    { metric: "kills", sort: "desc", limit: 5, filters: { agent: "Raze", region: "na", timespan: "60", min_rounds: 200 } },
+  ],
+  [
+    "kast leaders brazil min 100 rounds",
+    { metric: "kast", sort: "desc", limit: 5, filters: { region: "la", timespan: "60", min_rounds: 100 } },
+  ],
+  ["top 99 acs", { metric: "acs", sort: "desc", limit: 50, filters: { timespan: "60", min_rounds: 200 } }],
+  [
+    "best sova ascent asia pacific 60d",
+    {
+      metric: "acs",
+      sort: "desc",
+      limit: 5,
+      filters: { agent: "Sova", map: "Ascent", region: "ap", timespan: "60", min_rounds: 200 },
+    },
+  ],
+  ["top players this month", { metric: "acs", sort: "desc", limit: 5, filters: { timespan: "30", min_rounds: 200 } }],
+  [
+    "k/d kay/o apac 300+ rounds",
+    { metric: "kd", sort: "desc", limit: 5, filters: { agent: "KAY/O", region: "ap", timespan: "60", min_rounds: 300 } },
+  ],
+  ["who is the best player", { metric: "acs", sort: "desc", limit: 5, filters: { timespan: "60", min_rounds: 200 } }],
+  [
+    "top 20 controllers on lotus in mena last month",
+    {
+      metric: "acs",
+      sort: "desc",
+      limit: 20,
+      filters: { role: "controller", map: "Lotus", region: "mn", timespan: "30", min_rounds: 200 },
+    },
+  ],
+];
+
+describe("parseQuery", () => {
+  it.each(BACKEND_CASES)("parses %j like the backend", (text, expected) => {
+    expect(parseQuery(text)).toEqual(expected);
+  });
+});
+
+describe("toQueryText", () => {
+  const queries: StatsQuery[] = [
+    { metric: "acs", sort: "desc", limit: 5, filters: { timespan: "60", min_rounds: 200 } },
+    { metric: "kd", sort: "desc", limit: 10, filters: { agent: "Jett", region: "na", timespan: "30", min_rounds: 200 } },
+    { metric: "hs_pct", sort: "desc", limit: 25, filters: { role: "sentinel", map: "Icebox", timespan: "90", min_rounds: 100 } },
+    { metric: "kills", sort: "desc", limit: 50, filters: { agent: "KAY/O", region: "la", timespan: "60", min_rounds: 300 } },
+    { metric: "kast", sort: "desc", limit: 3, filters: { role: "controller", map: "Lotus", region: "mn", timespan: "30", min_rounds: 150 } },
+  ];
+
+  it.each(queries)("round-trips through parseQuery: %j", (query) => {
+    expect(parseQuery(toQueryText(query))).toEqual(query);
+  });
+});
+
+describe("describeQuery", () => {
+  it("leaves out the default limit and min rounds", () => {
+    expect(describeQuery(parseQuery("best kd duelists in emea"))).toEqual([
+      "Metric: K/D",
+      "Role: Duelist",
+      "Region: EMEA",
+      "60d",
+    ]);
+  });
+
+  it("includes a non-default limit and min rounds", () => {
+    expect(describeQuery(parseQuery("top 10 jett na 300 rounds"))).toEqual([
+      "Top 10",
+      "Metric: ACS",
+      "Agent: Jett",
+      "Region: NA",
+      "60d",
+      "300+ rounds",
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Client-side query parser — a TypeScript port of backend/nlp_parser.py.
+ * Lets the UI preview how a query will be interpreted before it is sent.
+ * Keep the detection rules in lockstep with the backend.
+ */
+
+import type { AgentRole, Region, StatMetric, StatsQuery, StatsQueryFilters, Timespan } from "@/lib/api";
+import {
+  AGENT_NAMES,
+  DEFAULT_LIMIT,
+  DEFAULT_MIN_ROUNDS,
+  DEFAULT_TIMESPAN,
+  MAP_NAMES,
+  MAX_LIMIT,
+  METRIC_KEYWORDS,
+  METRIC_LABELS,
+  REGION_ALIASES,
+  REGION_LABELS,
+  ROLE_LABELS,
+  ROLE_NAMES,
+} from "@/lib/statsQuery";
+
+const TIMESPAN_PATTERNS: [RegExp, Timespan][] = [
+  [/\b(?:last|past)\s*90\s*(?:days?|d)\b/i, "90"],
+  [/\b90\s*d(?:ays?)?\b/i, "90"],
+  [/\b(?:last|past)\s*60\s*(?:days?|d)\b/i, "60"],
+  [/\b60\s*d(?:ays?)?\b/i, "60"],
+  [/\b(?:last|past)\s*30\s*(?:days?|d)\b/i, "30"],
+  [/\b(?:last|past)\s*month\b/i, "30"],
+  [/\b30\s*d(?:ays?)?\b/i, "30"],
+  [/\bthis\s*month\b/i, "30"],
+];
+
+const MIN_ROUNDS_PATTERN = /\b(?:min(?:imum)?\s*)?(\d{2,4})\s*\+?\s*rounds?\b/i;
+
+const LIMIT_PATTERN = /\btop\s+(\d{1,2})\b/i;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const byLengthDesc = (a: string, b: string) => b.length - a.length;
+
+function matchWord<T>(text: string, table: Record<string, T>, aliases = Object.keys(table)): T | undefined {
+  const lower = text.toLowerCase();
+  for (const alias of aliases) {
+    if (new RegExp(`\\b${escapeRegExp(alias)}\\b`).test(lower)) {
+      return table[alias];
+    }
+  }
+  return undefined;
+}
+
+function detectMetric(text: string): StatMetric {
+  const lower = text.toLowerCase();
+  // Check specific metric keywords first (longest match wins)
+  for (const keyword of Object.keys(METRIC_KEYWORDS).sort(byLengthDesc)) {
+    if (lower.includes(keyword)) return METRIC_KEYWORDS[keyword];
+  }
+  return "acs";
+}
+
+const detectAgent = (text: string): string | undefined => matchWord(text, AGENT_NAMES);
+
+const detectRole = (text: string): AgentRole | undefined => matchWord(text, ROLE_NAMES);
+
+const detectMap = (text: string): string | undefined => matchWord(text, MAP_NAMES);
+
+// Try longest aliases first to avoid partial matches
+const detectRegion = (text: string): Region | undefined =>
+  matchWord(text, REGION_ALIASES, Object.keys(REGION_ALIASES).sort(byLengthDesc));
+
+function detectTimespan(text: string): Timespan | undefined {
+  return TIMESPAN_PATTERNS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+function detectMinRounds(text: string): number | undefined {
+  const m = MIN_ROUNDS_PATTERN.exec(text);
+  return m ? parseInt(m[1], 10) : undefined;
+}
+
+function detectLimit(text: string): number {
+  const m = LIMIT_PATTERN.exec(text);
+  return m ? Math.min(parseInt(m[1], 10), MAX_LIMIT) : DEFAULT_LIMIT;
+}
+
+/** Parse a natural language query into a structured query object. */
+export function parseQuery(text: string): StatsQuery {
+  const filters: StatsQueryFilters = {};
+
+  const agent = detectAgent(text);
+  const role = detectRole(text);
+  const map = detectMap(text);
+  const region = detectRegion(text);
+  const minRounds = detectMinRounds(text);
+
+  if (agent) filters.agent = agent;
+  if (role) filters.role = role;
+  if (map) filters.map = map;
+  if (region) filters.region = region;
+  filters.timespan = detectTimespan(text) ?? DEFAULT_TIMESPAN;
+  filters.min_rounds = minRounds || DEFAULT_MIN_ROUNDS;
+
+  return {
+    metric: detectMetric(text),
+    sort: "desc",
+    limit: detectLimit(text),
+    filters,
+  };
+}
+
+/**
+ * Short human-readable segments describing a parsed query, e.g.
+ * ["Metric: K/D", "Agent: Jett", "Region: NA", "60d"]. Defaults for limit
+ * and min rounds are left out to keep the preview compact.
+ */
+export function describeQuery(query: StatsQuery): string[] {
+  const { filters } = query;
+  const segments: string[] = [];
+
+  if (query.limit !== DEFAULT_LIMIT) segments.push(`Top ${query.limit}`);
+  segments.push(`Metric: ${METRIC_LABELS[query.metric]}`);
+  if (filters.agent) segments.push(`Agent: ${filters.agent}`);
+  if (filters.role) segments.push(`Role: ${ROLE_LABELS[filters.role]}`);
+  if (filters.map) segments.push(`Map: ${filters.map}`);
+  if (filters.region) segments.push(`Region: ${REGION_LABELS[filters.region]}`);
+  if (filters.timespan) segments.push(`${filters.timespan}d`);
+  if (filters.min_rounds && filters.min_rounds !== DEFAULT_MIN_ROUNDS) {
+    segments.push(`${filters.min_rounds}+ rounds`);
+  }
+
+  return segments;
+}
@@ -0,0 +1,89 @@
+/**
+ * Sample-size awareness for per-player rate stats. VLR only gives us each
+ * player's averages and round count, so uncertainty is estimated from rough
+ * per-round spreads for pro play rather than fitted to raw round data:
+ *
+ * - the reliability band is a 95% interval, ±1.96·σ/√rounds;
+ * - the shrunk value pulls a player toward the league mean by
+ *   k = σ²/τ² "pseudo-rounds" (empirical-Bayes style), so short, extreme
+ *   samples move most.
+ */
+
+import type { PlayerResult } from "@/lib/api";
+import { STAT_COLUMNS, sortPlayers, type SortDirection, type SortKey, type StatKey } from "@/lib/playerStats";
+
+interface RateModel {
+  /** Approximate league-wide average. */
+  mean: number;
+  /** Spread of a single round's value around the player's true rate. */
+  perRoundSd: number;
+  /** Spread of true rates between players. */
+  playerSd: number;
+}
+
+/** Rate stats with a sampling model; `rounds` itself is excluded. */
+export type RateStatKey = Exclude<StatKey, "rounds">;
+
+const RATE_MODELS: Record<RateStatKey, RateModel> = {
+  acs: { mean: 200, perRoundSd: 140, playerSd: 22 },
+  kd: { mean: 1.0, perRoundSd: 1.6, playerSd: 0.12 },
+  // Percent stats are modelled in percentage points
+  kast: { mean: 72, perRoundSd: 45, playerSd: 3 },
+  adr: { mean: 133, perRoundSd: 85, playerSd: 15 },
+  kpr: { mean: 0.72, perRoundSd: 0.7, playerSd: 0.07 },
+  hs_pct: { mean: 25, perRoundSd: 22, playerSd: 5 },
+};
+
+export const isRateStat = (key: SortKey): key is RateStatKey => key !== "rounds" && key !== "rank";
+
+/** Rows with fewer than this multiple of the min_rounds floor are "low sample". */
+const LOW_SAMPLE_FACTOR = 1.5;
+
+export function isLowSample(rounds: number | null, minRounds: number): boolean {
+  return rounds != null && rounds < minRounds * LOW_SAMPLE_FACTOR;
+}
+
+/** Half-width of the 95% reliability band, or null without a round count. */
+export function reliabilityMargin(key: RateStatKey, rounds: number | null): number | null {
+  if (!rounds || rounds <= 0) return null;
+  return (1.96 * RATE_MODELS[key].perRoundSd) / Math.sqrt(rounds);
+}
+
+/** `value` pulled toward the league mean in proportion to how thin the sample is. */
+export function shrinkToMean(key: RateStatKey, value: number, rounds: number): number {
+  const { mean, perRoundSd, playerSd } = RATE_MODELS[key];
+  const priorRounds = (perRoundSd / playerSd) ** 2;
+  return (rounds * value + priorRounds * mean) / (rounds + priorRounds);
+}
+
+/** A player with every rate stat shrunk; players without a round count are unchanged. */
+export function shrinkPlayer(player: PlayerResult): PlayerResult {
+  const { rounds } = player;
+  if (!rounds) return player;
+  const adjusted = { ...player };
+  for (const key of Object.keys(RATE_MODELS) as RateStatKey[]) {
+    const value = player[key];
+    if (value != null) adjusted[key] = shrinkToMean(key, value, rounds);
+  }
+  return adjusted;
+}
+
+/**
+ * Shrink every player and re-rank by the adjusted `metricKey` in the
+ * query's direction. Without a rate metric the server order stands.
+ */
+export function shrinkAndRerank(
+  players: PlayerResult[],
+  metricKey: SortKey | null,
+  direction: SortDirection
+): PlayerResult[] {
+  if (!metricKey || !isRateStat(metricKey)) return players.map(shrinkPlayer);
+  const column = STAT_COLUMNS.find((c) => c.key === metricKey);
+  const adjusted = players.map((p) => {
+    const shrunk = shrinkPlayer(p);
+    const value = shrunk[metricKey];
+    // Keep the highlighted metric column in step with the adjusted stat
+    return column && value != null ? { ...shrunk, value: column.format(value) } : shrunk;
+  });
+  return sortPlayers(adjusted, { key: metricKey, direction });
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  SchemaError,
+  type Parser,
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  parse,
+  record,
+  string,
+  withDefault,
+} from "@/lib/schema";
+
+const errorFrom = (fn: () => unknown): SchemaError => {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof SchemaError) return err;
+    throw err;
+  }
+  throw new Error("expected a SchemaError");
+};
+
+describe("primitive parsers", () => {
+  it("accepts matching values", () => {
+    expect(parse(string, "jett")).toBe("jett");
+    expect(parse(boolean, false)).toBe(false);
+    expect(parse(number, 1.25)).toBe(1.25);
+    expect(parse(oneOf(["30", "60"] as const), "60")).toBe("60");
+  });
+
+  it("coerces numeric strings", () => {
+    expect(parse(number, "1.25")).toBe(1.25);
+    expect(parse(number, " 200 ")).toBe(200);
+  });
+
+  it.each<[Parser<unknown>, unknown, string]>([
+    [string, 5, "response should be a string, got 5"],
+    [boolean, "true", 'response should be a boolean, got "true"'],
+    [number, "", 'response should be a number, got ""'],
+    [number, "abc", 'response should be a number, got "abc"'],
+    [number, Infinity, "response should be a number, got Infinity"],
+    [number, null, "response should be a number, got null"],
+    [oneOf(["30", "60"] as const), "45", 'response should be one of 30, 60, got "45"'],
+  ])("rejects bad values with a readable message (%#)", (parser, value, message) => {
+    expect(errorFrom(() => parse(parser, value)).message).toBe(message);
+  });
+
+  it("truncates long strings in messages", () => {
+    expect(errorFrom(() => parse(number, "x".repeat(40))).message).toBe(
+      `response should be a number, got "${"x".repeat(24)}…"`
+    );
+  });
+});
+
+describe("combinators", () => {
+  it("maps missing values for nullable, optional and withDefault", () => {
+    expect(parse(nullable(number), undefined)).toBeNull();
+    expect(parse(optional(number), null)).toBeUndefined();
+    expect(parse(withDefault(string, ""), null)).toBe("");
+    expect(parse(withDefault(string, ""), "G2")).toBe("G2");
+  });
+
+  it("drops unknown fields and omits undefined ones", () => {
+    const parser = object<{ a: number; b?: string }>({ a: number, b: optional(string) });
+    expect(parse(parser, { a: "1", extra: true })).toEqual({ a: 1 });
+  });
+
+  it("names the offending field by its path", () => {
+    const parser = object<{ players: { acs: number }[] }>({ players: array(object({ acs: number })) });
+    const err = errorFrom(() => parse(parser, { players: [{ acs: 250 }, { acs: "n/a" }] }));
+    expect(err.path).toBe("players[1].acs");
+    expect(err.expected).toBe("a number");
+    expect(err.received).toBe("n/a");
+    expect(err.message).toBe('players[1].acs should be a number, got "n/a"');
+  });
+
+  it("prefixes record keys with the path", () => {
+    const parser = object<{ avatars: Record<string, string | null> }>({ avatars: record(nullable(string)) });
+    expect(parse(parser, { avatars: { "9": null, "12": "x.png" } })).toEqual({ avatars: { "9": null, "12": "x.png" } });
+    expect(errorFrom(() => parse(parser, { avatars: { "12": 3 } })).path).toBe("avatars.12");
+  });
+
+  it.each<[Parser<unknown>, unknown, string]>([
+    [object({}), [], "response should be an object, got an array"],
+    [array(number), {}, "response should be an array, got an object"],
+    [record(number), null, "response should be an object, got null"],
+  ])("rejects the wrong container type (%#)", (parser, value, message) => {
+    expect(errorFrom(() => parse(parser, value)).message).toBe(message);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Minimal runtime validators for API payloads. Each parser takes an
+ * unknown value plus its path in the payload and returns a typed value,
+ * coercing where the wire format is known to wobble (numbers sent as
+ * strings), or throws a SchemaError naming the offending field.
+ */
+
+export type Parser<T> = (value: unknown, path: string) => T;
+
+const describe = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return `"${value.length > 24 ? `${value.slice(0, 24)}…` : value}"`;
+  return typeof value === "object" ? "an object" : String(value);
+};
+
+export class SchemaError extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: unknown
+  ) {
+    super(`${path || "response"} should be ${expected}, got ${describe(received)}`);
+    this.name = "SchemaError";
+  }
+}
+
+export const string: Parser<string> = (value, path) => {
+  if (typeof value !== "string") throw new SchemaError(path, "a string", value);
+  return value;
+};
+
+export const boolean: Parser<boolean> = (value, path) => {
+  if (typeof value !== "boolean") throw new SchemaError(path, "a boolean", value);
+  return value;
+};
+
+/** Finite number; numeric strings such as "1.25" are accepted and converted. */
+export const number: Parser<number> = (value, path) => {
+  const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) throw new SchemaError(path, "a number", value);
+  return n;
+};
+
+export const nullable =
+  <T>(parser: Parser<T>): Parser<T | null> =>
+  (value, path) =>
+    value == null ? null : parser(value, path);
+
+export const optional =
+  <T>(parser: Parser<T>): Parser<T | undefined> =>
+  (value, path) =>
+    value == null ? undefined : parser(value, path);
+
+/** Missing or null becomes `fallback`. */
+export const withDefault =
+  <T>(parser: Parser<T>, fallback: T): Parser<T> =>
+  (value, path) =>
+    value == null ? fallback : parser(value, path);
+
+export const oneOf =
+  <T extends string>(options: readonly T[]): Parser<T> =>
+  (value, path) => {
+    if (!options.includes(value as T)) throw new SchemaError(path, `one of ${options.join(", ")}`, value);
+    return value as T;
+  };
+
+export const array =
+  <T>(item: Parser<T>): Parser<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, "an array", value);
+    return value.map((v, i) => item(v, `${path}[${i}]`));
+  };
+
+/** Object used as a map, e.g. `{ "123": "https://…" }`. */
+export const record =
+  <T>(item: Parser<T>): Parser<Record<string, T>> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, "an object", value);
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, item(v, path ? `${path}.${key}` : key)])
+    );
+  };
+
+/** Object with the given fields; unknown fields are dropped, undefined ones omitted. */
+export const object =
+  <T>(shape: { [K in keyof T]: Parser<T[K]> }): Parser<T> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, "an object", value);
+    }
+    const record = value as Record<string, unknown>;
+    const result = {} as T;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const parsed = shape[key](record[key], path ? `${path}.${key}` : key);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result;
+  };
+
+/** Run a parser on a whole payload. */
+export const parse = <T>(parser: Parser<T>, value: unknown): T => parser(value, "");
@@ -0,0 +1,322 @@
+import type { PlayerResult } from "@/lib/api";
+import { loadAvatar } from "@/lib/avatars";
+
+export type ShareCardTheme = "light" | "dark";
+export type ShareCardSize = "square" | "landscape";
+
+export interface ShareCardData {
+  headline: string;
+  rankedLabel: string | null;
+  metadata: string;
+  players: PlayerResult[];
+}
+
+export interface ShareCardOptions {
+  theme: ShareCardTheme;
+  size: ShareCardSize;
+}
+
+export const SHARE_CARD_DIMENSIONS: Record<ShareCardSize, { width: number; height: number; maxRows: number }> = {
+  square: { width: 1080, height: 1080, maxRows: 10 },
+  landscape: { width: 1200, height: 675, maxRows: 5 },
+};
+
+interface Palette {
+  background: string;
+  card: string;
+  foreground: string;
+  muted: string;
+  mutedForeground: string;
+  border: string;
+  primary: string;
+  primaryForeground: string;
+  glow: string;
+}
+
+// Mirrors the design tokens in index.css; the card theme is chosen
+// independently of the page theme, so the CSS variables can't be read.
+const PALETTES: Record<ShareCardTheme, Palette> = {
+  light: {
+    background: "hsl(0 0% 98%)",
+    card: "hsl(0 0% 100%)",
+    foreground: "hsl(220 20% 10%)",
+    muted: "hsl(220 14% 94%)",
+    mutedForeground: "hsl(220 10% 45%)",
+    border: "hsl(220 13% 88%)",
+    primary: "hsl(0 100% 45%)",
+    primaryForeground: "hsl(0 0% 100%)",
+    glow: "hsla(0, 100%, 45%, 0.08)",
+  },
+  dark: {
+    background: "hsl(220 20% 6%)",
+    card: "hsl(220 18% 10%)",
+    foreground: "hsl(0 0% 98%)",
+    muted: "hsl(220 15% 18%)",
+    mutedForeground: "hsl(220 10% 55%)",
+    border: "hsl(220 15% 18%)",
+    primary: "hsl(0 100% 60%)",
+    primaryForeground: "hsl(0 0% 100%)",
+    glow: "hsla(0, 100%, 60%, 0.12)",
+  },
+};
+
+const FONT = "Inter, system-ui, sans-serif";
+
+const font = (weight: number, size: number) => `${weight} ${size}px ${FONT}`;
+
+/**
+ * Load an avatar for drawing. Images are requested with CORS so the canvas
+ * stays exportable; hosts that don't allow it resolve to null and get the
+ * placeholder instead.
+ */
+function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+}
+
+async function loadAvatarImage(playerId: number | null): Promise<HTMLImageElement | null> {
+  if (playerId == null) return null;
+  const url = await loadAvatar(playerId);
+  return url ? loadImage(url) : null;
+}
+
+/** Split text into at most `maxLines` lines that fit `maxWidth`, ellipsising the last. */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = truncate(ctx, `${kept[maxLines - 1]} ${lines[maxLines]}`, maxWidth);
+  return kept;
+}
+
+function truncate(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+  return `${text.slice(0, end).trimEnd()}…`;
+}
+
+function roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  ctx.arcTo(x, y + h, x, y, r);
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+}
+
+/** Round avatar, or the same person glyph `PlayerAvatar` falls back to. */
+function drawAvatar(
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement | null,
+  cx: number,
+  cy: number,
+  r: number,
+  palette: Palette
+) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(cx, cy, r, 0, Math.PI * 2);
+  ctx.fillStyle = palette.muted;
+  ctx.fill();
+  ctx.clip();
+
+  if (img) {
+    // Cover-fit the image into the circle
+    const scale = Math.max((r * 2) / img.width, (r * 2) / img.height);
+    const w = img.width * scale;
+    const h = img.height * scale;
+    ctx.drawImage(img, cx - w / 2, cy - h / 2, w, h);
+  } else {
+    ctx.strokeStyle = palette.mutedForeground;
+    ctx.lineWidth = Math.max(2, r * 0.08);
+    ctx.beginPath();
+    ctx.arc(cx, cy - r * 0.15, r * 0.22, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(cx, cy + r * 0.55, r * 0.4, Math.PI * 1.1, Math.PI * 1.9);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/** Draw a branded leaderboard card. Resolves once avatars have loaded or failed. */
+export async function renderShareCard(data: ShareCardData, options: ShareCardOptions): Promise<HTMLCanvasElement> {
+  const { width, height, maxRows } = SHARE_CARD_DIMENSIONS[options.size];
+  const palette = PALETTES[options.theme];
+  const players = data.players.slice(0, maxRows);
+
+  const [avatars] = await Promise.all([
+    Promise.all(players.map((p) => loadAvatarImage(p.player_id))),
+    document.fonts?.ready,
+  ]);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas isn't supported in this browser");
+
+  const pad = options.size === "square" ? 64 : 52;
+  const contentWidth = width - pad * 2;
+
+  // Background with the same top glow as the app
+  ctx.fillStyle = palette.background;
+  ctx.fillRect(0, 0, width, height);
+  const glow = ctx.createRadialGradient(width / 2, 0, 0, width / 2, 0, width * 0.7);
+  glow.addColorStop(0, palette.glow);
+  glow.addColorStop(1, "transparent");
+  ctx.fillStyle = glow;
+  ctx.fillRect(0, 0, width, height);
+
+  // Brand
+  let y = pad;
+  roundRect(ctx, pad, y, 48, 48, 12);
+  ctx.fillStyle = palette.primary;
+  ctx.fill();
+  ctx.fillStyle = palette.primaryForeground;
+  ctx.font = font(900, 24);
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText("V", pad + 24, y + 25);
+
+  ctx.textAlign = "left";
+  ctx.font = font(700, 26);
+  ctx.fillStyle = palette.foreground;
+  ctx.fillText("VAL", pad + 64, y + 25);
+  ctx.fillStyle = palette.primary;
+  ctx.fillText("MUSE", pad + 64 + ctx.measureText("VAL").width, y + 25);
+
+  ctx.textAlign = "right";
+  ctx.font = font(500, 20);
+  ctx.fillStyle = palette.mutedForeground;
+  ctx.fillText(
+    new Date().toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" }),
+    width - pad,
+    y + 25
+  );
+  y += 48 + 36;
+
+  // Headline and ranked label
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+  const headlineSize = options.size === "square" ? 36 : 30;
+  ctx.font = font(700, headlineSize);
+  ctx.fillStyle = palette.foreground;
+  for (const line of wrapText(ctx, data.headline, contentWidth, 2)) {
+    ctx.fillText(line, pad, y);
+    y += headlineSize * 1.25;
+  }
+  if (data.rankedLabel) {
+    y += 8;
+    ctx.font = font(600, 22);
+    ctx.fillStyle = palette.primary;
+    ctx.fillText(truncate(ctx, data.rankedLabel, contentWidth), pad, y);
+    y += 22 * 1.25;
+  }
+  y += 24;
+
+  // Rows, sized to fill the space left above the footer
+  const footerHeight = 56;
+  const rowsBottom = height - pad - footerHeight;
+  const rowHeight = players.length ? Math.min(96, (rowsBottom - y) / players.length) : 0;
+  const avatarRadius = Math.min(28, rowHeight * 0.32);
+
+  roundRect(ctx, pad, y, contentWidth, rowHeight * players.length, 24);
+  ctx.fillStyle = palette.card;
+  ctx.fill();
+  ctx.strokeStyle = palette.border;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  ctx.textBaseline = "middle";
+  players.forEach((p, i) => {
+    const top = y + i * rowHeight;
+    const mid = top + rowHeight / 2;
+    const inset = 28;
+
+    if (i > 0) {
+      ctx.strokeStyle = palette.border;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(pad + inset, top);
+      ctx.lineTo(width - pad - inset, top);
+      ctx.stroke();
+    }
+
+    const nameSize = Math.min(28, rowHeight * 0.34);
+
+    ctx.textAlign = "left";
+    ctx.font = font(800, nameSize);
+    ctx.fillStyle = i === 0 ? palette.primary : palette.mutedForeground;
+    ctx.fillText(String(p.rank), pad + inset, mid);
+
+    const avatarX = pad + inset + 48 + avatarRadius;
+    drawAvatar(ctx, avatars[i], avatarX, mid, avatarRadius, palette);
+
+    ctx.textAlign = "right";
+    ctx.font = font(800, nameSize);
+    ctx.fillStyle = i === 0 ? palette.primary : palette.foreground;
+    const valueX = width - pad - inset;
+    ctx.fillText(p.value, valueX, mid);
+    const valueWidth = ctx.measureText(p.value).width;
+
+    const textX = avatarX + avatarRadius + 20;
+    const textWidth = valueX - valueWidth - 24 - textX;
+    ctx.textAlign = "left";
+    if (p.team) {
+      ctx.font = font(700, nameSize);
+      ctx.fillStyle = palette.foreground;
+      ctx.fillText(truncate(ctx, p.player, textWidth), textX, mid - nameSize * 0.4);
+      ctx.font = font(500, nameSize * 0.62);
+      ctx.fillStyle = palette.mutedForeground;
+      ctx.fillText(truncate(ctx, p.team, textWidth), textX, mid + nameSize * 0.55);
+    } else {
+      ctx.font = font(700, nameSize);
+      ctx.fillStyle = palette.foreground;
+      ctx.fillText(truncate(ctx, p.player, textWidth), textX, mid);
+    }
+  });
+
+  // Footer: filter metadata and source
+  ctx.textBaseline = "bottom";
+  ctx.font = font(500, 18);
+  ctx.fillStyle = palette.mutedForeground;
+  ctx.textAlign = "right";
+  const source = "Data: vlr.gg/stats";
+  ctx.fillText(source, width - pad, height - pad);
+  ctx.textAlign = "left";
+  ctx.fillText(
+    truncate(ctx, data.metadata, contentWidth - ctx.measureText(source).width - 32),
+    pad,
+    height - pad
+  );
+
+  return canvas;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Couldn't encode the image"))), "image/png");
+  });
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { normalizeQueryText } from "@/lib/statsQuery";
+
+describe("normalizeQueryText", () => {
+  it.each([
+    ["Top 5 EMEA Duelists", "top 5  eu duelist"],
+    ["best K/D jett NA", "best kd jett north america"],
+    ["  highest headshot% on icebox ", "highest hs% on icebox"],
+    ["Top 10 KAY/O APAC", "top 10 kayo asia pacific"],
+  ])("gives %j and %j the same key", (a, b) => {
+    expect(normalizeQueryText(a)).toBe(normalizeQueryText(b));
+  });
+
+  it.each([
+    ["top 5 emea duelists", "top 5 na duelists"],
+    ["top 5 duelists", "top 10 duelists"],
+    ["best jett", "best raze"],
+    ["top kd sentinels", "top acs sentinels"],
+    // Aliases only resolve as whole words
+    ["top players on haven", "top players on havenna"],
+  ])("keeps %j and %j apart", (a, b) => {
+    expect(normalizeQueryText(a)).not.toBe(normalizeQueryText(b));
+  });
+});
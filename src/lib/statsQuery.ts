@@ -0,0 +1,244 @@
+import type { AgentRole, Region, StatMetric, StatsQuery, StatsQueryFilters, Timespan } from "@/lib/api";
+
+// ---------------------------------------------------------------------------
+// Vocabularies — keep in sync with the lookup tables in backend/nlp_parser.py
+// ---------------------------------------------------------------------------
+
+export const METRIC_KEYWORDS: Record<string, StatMetric> = {
+  acs: "acs",
+  "combat score": "acs",
+  kd: "kd",
+  "k/d": "kd",
+  "kill/death": "kd",
+  "kill death": "kd",
+  kills: "kills",
+  "most kills": "kills",
+  frags: "kills",
+  headshot: "hs_pct",
+  "hs%": "hs_pct",
+  hs: "hs_pct",
+  "headshot%": "hs_pct",
+  "headshot percentage": "hs_pct",
+  kast: "kast",
+};
+
+export const AGENT_NAMES: Record<string, string> = {
+  jett: "Jett",
+  raze: "Raze",
+  reyna: "Reyna",
+  phoenix: "Phoenix",
+  yoru: "Yoru",
+  neon: "Neon",
+  iso: "Iso",
+  waylay: "Waylay",
+  omen: "Omen",
+  brimstone: "Brimstone",
+  viper: "Viper",
+  astra: "Astra",
+  harbor: "Harbor",
+  clove: "Clove",
+  tejo: "Tejo",
+  sova: "Sova",
+  breach: "Breach",
+  skye: "Skye",
+  kayo: "KAY/O",
+  "kay/o": "KAY/O",
+  fade: "Fade",
+  gekko: "Gekko",
+  killjoy: "Killjoy",
+  cypher: "Cypher",
+  sage: "Sage",
+  chamber: "Chamber",
+  deadlock: "Deadlock",
+  vyse: "Vyse",
+};
+
+export const ROLE_NAMES: Record<string, AgentRole> = {
+  duelist: "duelist",
+  duelists: "duelist",
+  controller: "controller",
+  controllers: "controller",
+  initiator: "initiator",
+  initiators: "initiator",
+  sentinel: "sentinel",
+  sentinels: "sentinel",
+};
+
+export const MAP_NAMES: Record<string, string> = {
+  bind: "Bind",
+  haven: "Haven",
+  split: "Split",
+  ascent: "Ascent",
+  icebox: "Icebox",
+  breeze: "Breeze",
+  fracture: "Fracture",
+  pearl: "Pearl",
+  lotus: "Lotus",
+  sunset: "Sunset",
+  abyss: "Abyss",
+};
+
+export const REGION_ALIASES: Record<string, Region> = {
+  na: "na",
+  "north america": "na",
+  americas: "na",
+  emea: "eu",
+  eu: "eu",
+  europe: "eu",
+  br: "la",
+  brazil: "la",
+  latam: "la",
+  la: "la",
+  "latin america": "la",
+  ap: "ap",
+  apac: "ap",
+  asia: "ap",
+  "asia-pacific": "ap",
+  "asia pacific": "ap",
+  mn: "mn",
+  mena: "mn",
+  "middle east": "mn",
+};
+
+/** Parser defaults applied when the query doesn't mention them. */
+export const DEFAULT_LIMIT = 5;
+export const MAX_LIMIT = 50;
+export const DEFAULT_TIMESPAN: Timespan = "60";
+export const DEFAULT_MIN_ROUNDS = 200;
+
+// Canonical values, in display order
+export const METRICS: StatMetric[] = ["acs", "kd", "kills", "hs_pct", "kast"];
+export const AGENTS: string[] = [...new Set(Object.values(AGENT_NAMES))];
+export const ROLES: AgentRole[] = ["duelist", "controller", "initiator", "sentinel"];
+export const MAPS: string[] = Object.values(MAP_NAMES);
+export const REGIONS: Region[] = ["na", "eu", "la", "ap", "mn"];
+export const TIMESPANS: Timespan[] = ["30", "60", "90"];
+
+// ---------------------------------------------------------------------------
+// Display labels — match backend/response_generator.py
+// ---------------------------------------------------------------------------
+
+export const METRIC_LABELS: Record<StatMetric, string> = {
+  acs: "ACS",
+  kd: "K/D",
+  kills: "Kills",
+  hs_pct: "HS%",
+  kast: "KAST",
+};
+
+export const REGION_LABELS: Record<Region, string> = {
+  na: "NA",
+  eu: "EMEA",
+  la: "LATAM",
+  ap: "APAC",
+  mn: "MENA",
+};
+
+export const ROLE_LABELS: Record<AgentRole, string> = {
+  duelist: "Duelist",
+  controller: "Controller",
+  initiator: "Initiator",
+  sentinel: "Sentinel",
+};
+
+export const TIMESPAN_LABELS: Record<Timespan, string> = {
+  "30": "Last 30 Days",
+  "60": "Last 60 Days",
+  "90": "Last 90 Days",
+};
+
+// Keyword written back into query text for each metric
+const METRIC_TERMS: Record<StatMetric, string> = {
+  acs: "acs",
+  kd: "kd",
+  kills: "kills",
+  hs_pct: "hs%",
+  kast: "kast",
+};
+
+/**
+ * Render a structured query as natural language the parser reads back to
+ * the same object. Used to keep `/search?q=` links meaningful after the
+ * query was edited programmatically.
+ */
+export function toQueryText(query: StatsQuery): string {
+  const { filters } = query;
+  const parts = [`top ${query.limit}`, METRIC_TERMS[query.metric]];
+
+  if (filters.agent) parts.push(filters.agent.toLowerCase());
+  if (filters.role) parts.push(filters.role);
+  parts.push("players");
+  if (filters.map) parts.push(`on ${filters.map.toLowerCase()}`);
+  if (filters.region) parts.push(`in ${filters.region}`);
+  parts.push(`last ${filters.timespan ?? DEFAULT_TIMESPAN} days`);
+  parts.push(`min ${filters.min_rounds ?? DEFAULT_MIN_ROUNDS} rounds`);
+
+  return parts.join(" ");
+}
+
+/** Short human name for a query, e.g. "EMEA Duelists ACS 30d". */
+export function defaultQueryName(query: StatsQuery): string {
+  const { filters } = query;
+  const parts: string[] = [];
+
+  if (filters.region) parts.push(REGION_LABELS[filters.region]);
+  if (filters.agent) parts.push(filters.agent);
+  if (filters.role) parts.push(`${ROLE_LABELS[filters.role]}s`);
+  if (filters.map) parts.push(filters.map);
+  parts.push(METRIC_LABELS[query.metric]);
+  parts.push(`${filters.timespan ?? DEFAULT_TIMESPAN}d`);
+
+  return parts.join(" ");
+}
+
+// Every alias mapped to one canonical token, longest first so multi-word
+// aliases ("north america") win over their parts
+const SYNONYMS: [string, string][] = [
+  ...Object.entries(METRIC_KEYWORDS),
+  ...Object.entries(REGION_ALIASES),
+  ...Object.entries(ROLE_NAMES),
+  ...Object.entries(AGENT_NAMES).map(([alias, name]): [string, string] => [alias, name.toLowerCase()]),
+].sort(([a], [b]) => b.length - a.length);
+
+const SYNONYM_PATTERN = new RegExp(
+  `(?<![a-z0-9])(${SYNONYMS.map(([alias]) => alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})(?![a-z0-9])`,
+  "g"
+);
+
+const SYNONYM_LOOKUP = new Map(SYNONYMS);
+
+/**
+ * Canonical form of free-text query for cache lookups: lowercased,
+ * whitespace-collapsed, and with vocabulary synonyms resolved, so
+ * "Top 5 EMEA Duelists" and "top 5  eu duelist" share an entry.
+ */
+export function normalizeQueryText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(SYNONYM_PATTERN, (alias) => SYNONYM_LOOKUP.get(alias) ?? alias);
+}
+
+const FILTER_VOCABULARIES = {
+  agent: AGENT_NAMES,
+  role: ROLE_NAMES,
+  map: MAP_NAMES,
+  region: REGION_ALIASES,
+} satisfies Partial<Record<keyof StatsQueryFilters, Record<string, string>>>;
+
+/**
+ * Filters with agent, role, map and region resolved through the parser's
+ * vocabularies, so "EU", "europe" and "eu" compare equal. Unknown values
+ * are only lowercased.
+ */
+export function normalizeFilters(filters: StatsQueryFilters): StatsQueryFilters {
+  const normalized: StatsQueryFilters = { ...filters };
+  for (const key of Object.keys(FILTER_VOCABULARIES) as (keyof typeof FILTER_VOCABULARIES)[]) {
+    const value = filters[key];
+    if (value == null) continue;
+    const lower = value.trim().toLowerCase();
+    (normalized as Record<string, string>)[key] = FILTER_VOCABULARIES[key][lower] ?? lower;
+  }
+  return normalized;
+}
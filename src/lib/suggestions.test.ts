@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { applySuggestion, editDistance, getSuggestions } from "@/lib/suggestions";
+
+const corrections = (query: string) => getSuggestions(query).filter((s) => s.correction);
+
+describe("editDistance", () => {
+  it.each([
+    ["jett", "jett", 0],
+    ["", "sova", 4],
+    ["killjoi", "killjoy", 1],
+    ["icebix", "icebox", 1],
+    ["breech", "breach", 1],
+    // Adjacent transpositions count as one edit
+    ["ajtt", "jatt", 1],
+    ["viper", "cypher", 3],
+  ])("%s → %s is %i", (a, b, expected) => {
+    expect(editDistance(a, b)).toBe(expected);
+    expect(editDistance(b, a)).toBe(expected);
+  });
+});
+
+describe("getSuggestions", () => {
+  it.each([
+    ["killjoi", "killjoy", "Killjoy"],
+    ["icebix", "icebox", "Icebox"],
+    ["breech", "breach", "Breach"],
+  ])("corrects %s to %s", (typo, term, detail) => {
+    const fixes = corrections(`top ${typo} players`);
+    expect(fixes).toHaveLength(1);
+    expect(fixes[0]).toMatchObject({ term, detail, start: 4, end: 4 + typo.length });
+  });
+
+  it("corrects the word still being typed when nothing completes it", () => {
+    expect(corrections("best killjoi").map((s) => s.term)).toEqual(["killjoy"]);
+  });
+
+  it("completes the word being typed", () => {
+    const completions = getSuggestions("best kill").filter((s) => !s.correction);
+    expect(completions.map((s) => s.term)).toContain("killjoy");
+  });
+
+  it("leaves recognised words, stop words and numbers alone", () => {
+    expect(corrections("top 10 jett players on icebox last 30 days ")).toEqual([]);
+  });
+
+  it.each([
+    // Under four letters there's no slack at all
+    "jtt",
+    // Five letters allow one edit; this is two away from anything
+    "skyyy",
+    // Too far from any term to be a typo
+    "banana",
+  ])("suggests nothing for %s", (word) => {
+    expect(corrections(`${word} players`)).toEqual([]);
+  });
+});
+
+describe("applySuggestion", () => {
+  it("replaces the misspelt word in place", () => {
+    const query = "top killjoi players";
+    const [fix] = corrections(query);
+    expect(applySuggestion(query, fix)).toBe("top killjoy players");
+  });
+
+  it("adds a space after completing the trailing word", () => {
+    const query = "best kill";
+    const completion = getSuggestions(query).find((s) => s.term === "killjoy")!;
+    expect(applySuggestion(query, completion)).toBe("best killjoy ");
+  });
+});
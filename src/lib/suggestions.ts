@@ -0,0 +1,170 @@
+/**
+ * Autocomplete + typo correction for the search bar, driven by the same
+ * vocabularies as the query parser.
+ */
+
+import {
+  AGENT_NAMES,
+  MAP_NAMES,
+  METRIC_KEYWORDS,
+  METRIC_LABELS,
+  REGION_ALIASES,
+  REGION_LABELS,
+  ROLE_LABELS,
+  ROLES,
+} from "@/lib/statsQuery";
+
+export type SuggestionKind = "agent" | "map" | "region" | "role" | "metric";
+
+export interface Suggestion {
+  /** Unique key, also used as the command item value. */
+  id: string;
+  kind: SuggestionKind;
+  /** Text inserted into the query. */
+  term: string;
+  /** What the term resolves to, e.g. "EMEA" for "europe". */
+  detail: string;
+  /** Character range in the query that the term replaces. */
+  start: number;
+  end: number;
+  /** True when the term corrects a word the parser would not recognise. */
+  correction: boolean;
+}
+
+interface VocabEntry {
+  kind: SuggestionKind;
+  term: string;
+  detail: string;
+}
+
+const VOCABULARY: VocabEntry[] = [
+  ...Object.entries(AGENT_NAMES).map(([term, agent]) => ({ kind: "agent" as const, term, detail: agent })),
+  ...Object.entries(MAP_NAMES).map(([term, map]) => ({ kind: "map" as const, term, detail: map })),
+  ...Object.entries(REGION_ALIASES).map(([term, region]) => ({
+    kind: "region" as const,
+    term,
+    detail: REGION_LABELS[region],
+  })),
+  ...ROLES.map((role) => ({ kind: "role" as const, term: role, detail: ROLE_LABELS[role] })),
+  ...Object.entries(METRIC_KEYWORDS).map(([term, metric]) => ({
+    kind: "metric" as const,
+    term,
+    detail: METRIC_LABELS[metric],
+  })),
+];
+
+// Filler words the parser ignores; never "correct" these
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "at", "best", "by", "day", "days", "find", "for", "from", "game", "games",
+  "greatest", "has", "have", "highest", "in", "is", "last", "leading", "list", "lowest", "map", "maps",
+  "min", "minimum", "month", "most", "of", "on", "past", "player", "players", "pros", "rating", "region",
+  "round", "rounds", "show", "stats", "team", "teams", "the", "this", "top", "vs", "what", "who", "with",
+  "agent", "agents", "role", "roles", "week", "year",
+]);
+
+// Every single word the parser can match, including parts of multi-word aliases
+const KNOWN_WORDS = new Set(VOCABULARY.flatMap((entry) => entry.term.split(/\s+/)));
+
+const FUZZY_CANDIDATES = VOCABULARY.filter((entry) => !entry.term.includes(" "));
+
+const MAX_COMPLETIONS = 6;
+
+const TOKEN_PATTERN = /[a-z0-9%/'-]+/gi;
+
+/** Optimal string alignment distance (Levenshtein + adjacent transpositions). */
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Short words get no slack; "killjoi" → "killjoy" gets one or two edits
+const maxDistance = (word: string) => (word.length < 4 ? 0 : word.length < 6 ? 1 : 2);
+
+function closestTerms(word: string): VocabEntry[] {
+  const limit = maxDistance(word);
+  if (limit === 0) return [];
+
+  let best = limit + 1;
+  let matches: VocabEntry[] = [];
+  for (const entry of FUZZY_CANDIDATES) {
+    const dist = editDistance(word, entry.term);
+    if (dist < best) {
+      best = dist;
+      matches = [entry];
+    } else if (dist === best) {
+      matches.push(entry);
+    }
+  }
+  return best <= limit ? matches : [];
+}
+
+const isRecognised = (word: string) => KNOWN_WORDS.has(word) || STOP_WORDS.has(word) || /^\d/.test(word);
+
+const toSuggestion = (entry: VocabEntry, start: number, end: number, correction: boolean): Suggestion => ({
+  id: `${correction ? "fix" : "complete"}:${entry.kind}:${entry.term}:${start}`,
+  kind: entry.kind,
+  term: entry.term,
+  detail: entry.detail,
+  start,
+  end,
+  correction,
+});
+
+/**
+ * Suggestions for the current query text: corrections for any word the
+ * parser won't recognise, plus completions for the word being typed.
+ */
+export function getSuggestions(query: string): Suggestion[] {
+  const tokens = [...query.matchAll(TOKEN_PATTERN)].map((m) => ({
+    word: m[0].toLowerCase(),
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+  }));
+  if (tokens.length === 0) return [];
+
+  // The last word is still being typed unless followed by whitespace
+  const last = tokens[tokens.length - 1];
+  const typing = last.end === query.length ? last : null;
+
+  const suggestions: Suggestion[] = [];
+
+  for (const token of tokens) {
+    if (token === typing || isRecognised(token.word)) continue;
+    for (const entry of closestTerms(token.word)) {
+      suggestions.push(toSuggestion(entry, token.start, token.end, true));
+    }
+  }
+
+  if (typing) {
+    const completions = VOCABULARY.filter(
+      (entry) => entry.term.startsWith(typing.word) && entry.term !== typing.word
+    ).slice(0, MAX_COMPLETIONS);
+
+    if (completions.length > 0) {
+      suggestions.push(...completions.map((entry) => toSuggestion(entry, typing.start, typing.end, false)));
+    } else if (!isRecognised(typing.word)) {
+      suggestions.push(...closestTerms(typing.word).map((entry) => toSuggestion(entry, typing.start, typing.end, true)));
+    }
+  }
+
+  return suggestions;
+}
+
+/** Apply a suggestion to the query, returning the new text. */
+export function applySuggestion(query: string, suggestion: Suggestion): string {
+  const before = query.slice(0, suggestion.start);
+  const after = query.slice(suggestion.end);
+  // Completing the trailing word: add a space so the user can keep typing
+  return after ? `${before}${suggestion.term}${after}` : `${before}${suggestion.term} `;
+}
@@ -0,0 +1,92 @@
+import type { PlayerResult, StatMetric, StatsQuery, Timespan } from "@/lib/api";
+import { STAT_COLUMNS, metricStatKey, playerKey } from "@/lib/playerStats";
+import { MAX_LIMIT, TIMESPANS } from "@/lib/statsQuery";
+
+export interface TrendRow {
+  key: string;
+  player_id: number | null;
+  player: string;
+  team: string;
+  /** Metric value per timespan; null where the player isn't in that result. */
+  values: Record<Timespan, number | null>;
+  /** Last 30 days minus last 90 days; null unless both are known. */
+  delta: number | null;
+}
+
+/** Longest window first, so sparklines read left-to-right towards "now". */
+export const TREND_TIMESPANS: Timespan[] = [...TIMESPANS].reverse();
+
+/**
+ * The query to run for one timespan. The pool is widened to MAX_LIMIT so a
+ * player in one window's top N can usually be found in the others too.
+ */
+export const trendQuery = (query: StatsQuery, timespan: Timespan): StatsQuery => ({
+  ...query,
+  limit: MAX_LIMIT,
+  filters: { ...query.filters, timespan },
+});
+
+/** A player's value for the queried metric ("kills" only exists as the display value). */
+export function metricValue(player: PlayerResult, metric: StatMetric): number | null {
+  const key = metricStatKey(metric);
+  if (key) return player[key];
+  const parsed = parseFloat(player.value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Format a metric value the way the ranked table's column does. */
+export function formatMetric(metric: StatMetric, value: number): string {
+  const column = STAT_COLUMNS.find((c) => c.key === metricStatKey(metric));
+  return column ? column.format(value) : String(Math.round(value));
+}
+
+export type TrendDirection = -1 | 0 | 1;
+
+/** Up, down, or flat once rounded to the metric's display precision. */
+export function trendDirection(metric: StatMetric, delta: number | null): TrendDirection | null {
+  if (delta == null) return null;
+  if (formatMetric(metric, Math.abs(delta)) === formatMetric(metric, 0)) return 0;
+  return delta > 0 ? 1 : -1;
+}
+
+/**
+ * Merge per-timespan results by player. Anyone in the top `limit` of any
+ * window is kept, ordered by their last-30-days value in the query's sort
+ * direction (players missing from that window sink to the bottom).
+ */
+export function mergeTimespanResults(
+  results: Record<Timespan, PlayerResult[]>,
+  query: StatsQuery
+): TrendRow[] {
+  const rows = new Map<string, TrendRow>();
+  for (const timespan of TIMESPANS) {
+    for (const p of results[timespan].slice(0, query.limit)) {
+      const key = playerKey(p);
+      if (rows.has(key)) continue;
+      const values = Object.fromEntries(TIMESPANS.map((t) => [t, null])) as TrendRow["values"];
+      rows.set(key, { key, player_id: p.player_id, player: p.player, team: p.team, values, delta: null });
+    }
+  }
+
+  for (const timespan of TIMESPANS) {
+    for (const p of results[timespan]) {
+      const row = rows.get(playerKey(p));
+      if (row) row.values[timespan] = metricValue(p, query.metric);
+    }
+  }
+
+  const sign = query.sort === "asc" ? 1 : -1;
+  return [...rows.values()]
+    .map((row) => ({
+      ...row,
+      delta: row.values["30"] != null && row.values["90"] != null ? row.values["30"] - row.values["90"] : null,
+    }))
+    .sort((a, b) => {
+      const av = a.values["30"];
+      const bv = b.values["30"];
+      if (av == null && bv == null) return 0;
+      if (av == null) return 1;
+      if (bv == null) return -1;
+      return (av - bv) * sign;
+    });
+}
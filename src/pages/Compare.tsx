@@ -0,0 +1,136 @@
+import { Link } from "react-router-dom";
+import { Crown, X } from "lucide-react";
+import { PageLayout } from "@/components/PageLayout";
+import { PlayerAvatar } from "@/components/PlayerAvatar";
+import { PlayerRadar } from "@/components/PlayerRadar";
+import { useCompare, type ComparedPlayer } from "@/hooks/use-compare";
+import { PERFORMANCE_STATS, STAT_COLUMNS, formatStat, playerKey, type StatKey } from "@/lib/playerStats";
+import { cn } from "@/lib/utils";
+
+/** Highest value per stat among the compared players (ties share the win). */
+function statLeaders(players: ComparedPlayer[]): Partial<Record<StatKey, number>> {
+  const leaders: Partial<Record<StatKey, number>> = {};
+  for (const key of PERFORMANCE_STATS) {
+    const values = players.map((p) => p[key]).filter((v): v is number => v != null);
+    if (values.length > 1) leaders[key] = Math.max(...values);
+  }
+  return leaders;
+}
+
+const Compare = () => {
+  const { players, remove, clear } = useCompare();
+
+  if (players.length === 0) {
+    return (
+      <PageLayout>
+        <main className="px-6 pt-12 md:pt-20 pb-20">
+          <div className="max-w-2xl mx-auto text-center space-y-4">
+            <h1 className="text-3xl md:text-4xl font-black text-foreground tracking-tight">Compare players</h1>
+            <p className="text-muted-foreground">
+              Tick the compare box on any result row to add up to four players, then come back here.
+            </p>
+            <Link to="/" className="text-primary underline hover:text-primary/90">
+              Start a search
+            </Link>
+          </div>
+        </main>
+      </PageLayout>
+    );
+  }
+
+  const leaders = statLeaders(players);
+  // Scale each axis against the best compared value so shapes are comparable
+  const normalize = (key: StatKey, value: number) => (leaders[key] ? (value / leaders[key]) * 100 : 100);
+  const gridTemplateColumns = `8rem repeat(${players.length}, minmax(8rem, 1fr))`;
+
+  return (
+    <PageLayout>
+      <main className="px-6 pt-8 md:pt-12 pb-20">
+        <div className="max-w-5xl mx-auto space-y-8">
+          <div className="flex items-center justify-between gap-4">
+            <h1 className="text-3xl md:text-4xl font-black text-foreground tracking-tight">Head to head</h1>
+            <button
+              type="button"
+              onClick={clear}
+              className="px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors"
+            >
+              Clear all
+            </button>
+          </div>
+
+          {/* Side-by-side stats */}
+          <div className="animate-fade-up bg-card border border-border rounded-2xl overflow-x-auto">
+            <div className="grid gap-2 px-6 py-4 border-b border-border" style={{ gridTemplateColumns }}>
+              <span />
+              {players.map((p) => (
+                <div key={playerKey(p)} className="flex items-center gap-3 min-w-0">
+                  <PlayerAvatar playerId={p.player_id} name={p.player} />
+                  <div className="flex flex-col min-w-0 flex-1">
+                    {p.player_id != null ? (
+                      <Link
+                        to={`/player/${p.player_id}`}
+                        state={{ player: p.player, team: p.team }}
+                        className="font-bold text-foreground truncate hover:text-primary transition-colors"
+                      >
+                        {p.player}
+                      </Link>
+                    ) : (
+                      <span className="font-bold text-foreground truncate">{p.player}</span>
+                    )}
+                    <span className="text-xs text-muted-foreground truncate" title={p.context ?? undefined}>
+                      {p.team || p.context}
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => remove(p)}
+                    aria-label={`Remove ${p.player} from comparison`}
+                    className="p-1 rounded-full hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {STAT_COLUMNS.map((c) => (
+              <div
+                key={c.key}
+                className="grid gap-2 px-6 py-3 border-b border-border/50 last:border-b-0"
+                style={{ gridTemplateColumns }}
+              >
+                <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider self-center">
+                  {c.label}
+                </span>
+                {players.map((p) => {
+                  const value = p[c.key];
+                  const wins = value != null && leaders[c.key] === value;
+                  return (
+                    <span
+                      key={playerKey(p)}
+                      className={cn(
+                        "flex items-center gap-1.5 self-center",
+                        wins ? "font-black text-primary" : c.muted ? "text-muted-foreground" : "text-foreground"
+                      )}
+                    >
+                      {formatStat(c, value)}
+                      {wins && <Crown className="w-3.5 h-3.5" />}
+                    </span>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+
+          {/* Radar */}
+          <div className="animate-fade-up bg-card border border-border rounded-2xl p-6">
+            <h2 className="text-lg font-bold text-foreground tracking-tight mb-1">Profile shape</h2>
+            <p className="text-sm text-muted-foreground mb-4">Each axis is scaled to the best value among these players.</p>
+            <PlayerRadar players={players} normalize={normalize} />
+          </div>
+        </div>
+      </main>
+    </PageLayout>
+  );
+};
+
+export default Compare;
@@ -1,101 +1,195 @@
-import { useState } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useLocation, useSearchParams } from "react-router-dom";
+import { toast } from "sonner";
 import { SearchBar } from "@/components/SearchBar";
 import { QueryResult } from "@/components/QueryResult";
-import { ThemeToggle } from "@/components/ThemeToggle";
-import { queryStats, type QueryResponse } from "@/lib/api";
+import { PageLayout } from "@/components/PageLayout";
+import { CompareTray } from "@/components/CompareTray";
+import { HistorySidebar, HistoryTrigger } from "@/components/HistorySidebar";
+import { StatusBanner, StatusIndicator } from "@/components/ServiceStatus";
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { recordSearch, type HistoryEntry } from "@/hooks/use-search-history";
+import { useRunSearch } from "@/hooks/use-run-search";
+import { useProvidePaletteContext } from "@/hooks/use-command-palette";
+import {
+  getCachedQueryStats,
+  isAbortError,
+  needsRevalidation,
+  queryStats,
+  toApiRequestError,
+  type ApiRequestError,
+  type QueryResponse,
+  type StatsQuery,
+} from "@/lib/api";
+import { toQueryText } from "@/lib/statsQuery";
 
 const Index = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<QueryResponse | null>(null);
-  const [error, setError] = useState<string | null>(null);
-
-  const handleSearch = async (query: string) => {
-    setIsLoading(true);
-    setResult(null);
-    setError(null);
-
-    try {
-      const data = await queryStats(query);
-      setResult(data);
-    } catch (err) {
-      setError(
-        err instanceof Error
-          ? err.message
-          : "Something went wrong. Try again."
-      );
-    } finally {
+  const [fetchedAt, setFetchedAt] = useState<number | null>(null);
+  const [error, setError] = useState<ApiRequestError | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [retryStatus, setRetryStatus] = useState<{ attempt: number; retries: number } | null>(null);
+  // Only the latest search may update state; earlier ones are aborted
+  const inFlight = useRef<AbortController | null>(null);
+  const [searchParams] = useSearchParams();
+  const runSearch = useRunSearch();
+  const location = useLocation();
+  useProvidePaletteContext("result", result);
+
+  // The URL is the source of truth for the active query, so searches can be
+  // bookmarked, shared, and replayed with back/forward.
+  const activeQuery = searchParams.get("q")?.trim() ?? "";
+  // Queries edited through filter chips carry their structured form in
+  // history state; shared links fall back to re-parsing the text.
+  const structuredQuery = (location.state as { query?: StatsQuery } | null)?.query;
+
+  const cancelInFlight = useCallback(() => {
+    inFlight.current?.abort();
+    inFlight.current = null;
+  }, []);
+
+  const runQuery = useCallback(
+    async (text: string, query?: StatsQuery) => {
+      cancelInFlight();
+      const controller = new AbortController();
+      inFlight.current = controller;
+
+      setError(null);
+      setRetryStatus(null);
+      setIsRefreshing(false);
+
+      // Stale-while-revalidate: show a cached result at once, then refresh it
+      const cached = await getCachedQueryStats(query ?? text);
+      if (controller.signal.aborted) return;
+      if (cached) {
+        setResult(cached.data);
+        setFetchedAt(cached.fetchedAt);
+        setIsLoading(false);
+        recordSearch(text, cached.data.query, cached.data.result_count);
+        if (!needsRevalidation(cached)) {
+          inFlight.current = null;
+          return;
+        }
+        setIsRefreshing(true);
+      } else {
+        setIsLoading(true);
+        setResult(null);
+      }
+
+      try {
+        const data = await queryStats(query ?? text, {
+          signal: controller.signal,
+          retry: { onRetry: (attempt, retries) => setRetryStatus({ attempt, retries }) },
+        });
+        setResult(data);
+        setFetchedAt(Date.now());
+        recordSearch(text, data.query, data.result_count);
+      } catch (err) {
+        // A newer search superseded this one; leave its state alone
+        if (isAbortError(err)) return;
+        if (cached) {
+          toast.error("Couldn't refresh these results — showing the cached copy");
+        } else {
+          setError(toApiRequestError(err));
+        }
+      }
+
+      if (inFlight.current === controller) inFlight.current = null;
+      setIsLoading(false);
+      setIsRefreshing(false);
+      setRetryStatus(null);
+    },
+    [cancelInFlight]
+  );
+
+  useEffect(() => {
+    if (activeQuery) {
+      runQuery(activeQuery, structuredQuery);
+    } else {
+      cancelInFlight();
       setIsLoading(false);
+      setIsRefreshing(false);
+      setResult(null);
+      setError(null);
     }
+  }, [activeQuery, structuredQuery, runQuery, cancelInFlight]);
+
+  // Don't let a response land after leaving the page
+  useEffect(() => cancelInFlight, [cancelInFlight]);
+
+  const handleSearch = (query: string) => {
+    if (query === activeQuery) {
+      // Same URL — navigating would be a no-op, so re-run directly
+      runQuery(query);
+      return;
+    }
+    runSearch(query);
   };
 
+  const handleQueryChange = (query: StatsQuery) => runSearch(toQueryText(query), query);
+
+  // Replay the exact structured query so a later parser change can't alter it
+  const handleHistoryRun = (entry: HistoryEntry) => runSearch(entry.text, entry.query);
+
   return (
-    <div className="min-h-screen bg-background relative overflow-hidden">
-      {/* Background effects */}
-      <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_top,hsl(0_100%_60%/0.08),transparent_50%)]" />
-      <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_bottom_right,hsl(220_80%_50%/0.05),transparent_50%)]" />
-
-      {/* Grid pattern */}
-      <div
-        className="absolute inset-0 opacity-[0.02]"
-        style={{
-          backgroundImage: `linear-gradient(hsl(var(--foreground)) 1px, transparent 1px),
-                           linear-gradient(90deg, hsl(var(--foreground)) 1px, transparent 1px)`,
-          backgroundSize: "60px 60px",
-        }}
-      />
-
-      <div className="relative z-10">
-        {/* Header */}
-        <header className="pt-8 pb-4 px-6">
-          <div className="max-w-7xl mx-auto flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 bg-primary rounded-xl flex items-center justify-center">
-                <span className="text-primary-foreground font-black text-lg">V</span>
+    <SidebarProvider defaultOpen={false}>
+      <div className="flex-1 min-w-0">
+        <PageLayout
+          headerActions={
+            <>
+              <StatusIndicator />
+              <HistoryTrigger />
+            </>
+          }
+        >
+          {/* Hero section */}
+          <main className="px-6 pt-12 md:pt-20 pb-20">
+            <div className="max-w-7xl mx-auto">
+              {/* Title */}
+              <div className="text-center mb-12">
+                <h1 className="text-4xl md:text-6xl lg:text-7xl font-black text-foreground mb-4 tracking-tight">
+                  Search{" "}
+                  <span className="text-primary">VALORANT</span>
+                  <br />
+                  pro stats
+                </h1>
+                <p className="text-lg md:text-xl text-muted-foreground max-w-2xl mx-auto">
+                  Natural language search powered by VLR.gg stats.
+                  <br className="hidden md:block" />
+                  Ask about players, agents, maps, and regions.
+                </p>
               </div>
-              <span className="text-xl font-bold text-foreground tracking-tight">
-                VAL<span className="text-primary">MUSE</span>
-              </span>
-            </div>
-            <ThemeToggle />
-          </div>
-        </header>
-
-        {/* Hero section */}
-        <main className="px-6 pt-12 md:pt-20 pb-20">
-          <div className="max-w-7xl mx-auto">
-            {/* Title */}
-            <div className="text-center mb-12">
-              <h1 className="text-4xl md:text-6xl lg:text-7xl font-black text-foreground mb-4 tracking-tight">
-                Search{" "}
-                <span className="text-primary">VALORANT</span>
-                <br />
-                pro stats
-              </h1>
-              <p className="text-lg md:text-xl text-muted-foreground max-w-2xl mx-auto">
-                Natural language search powered by VLR.gg stats.
-                <br className="hidden md:block" />
-                Ask about players, agents, maps, and regions.
-              </p>
+
+              <StatusBanner />
+
+              {/* Search */}
+              <SearchBar
+                onSearch={handleSearch}
+                isLoading={isLoading}
+                initialQuery={activeQuery}
+              />
+
+              {/* Results */}
+              <QueryResult
+                data={result}
+                queryText={activeQuery}
+                fetchedAt={fetchedAt}
+                error={error}
+                isLoading={isLoading}
+                retryStatus={retryStatus}
+                isRefreshing={isRefreshing}
+                onQueryChange={handleQueryChange}
+                onRetry={() => runQuery(activeQuery, structuredQuery)}
+              />
             </div>
+          </main>
 
-            {/* Search */}
-            <SearchBar onSearch={handleSearch} isLoading={isLoading} />
-
-            {/* Results */}
-            <QueryResult data={result} error={error} isLoading={isLoading} />
-          </div>
-        </main>
-
-        {/* Footer */}
-        <footer className="border-t border-border py-8 px-6">
-          <div className="max-w-7xl mx-auto flex flex-col md:flex-row items-center justify-between gap-4">
-            <p className="text-sm text-muted-foreground">
-              ValMuse v1 — Data sourced from vlr.gg/stats
-            </p>
-          </div>
-        </footer>
+          <CompareTray />
+        </PageLayout>
       </div>
-    </div>
+      <HistorySidebar onRun={handleHistoryRun} activeQuery={activeQuery} />
+    </SidebarProvider>
   );
 };
 
@@ -0,0 +1,265 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
+import { ArrowLeft, ExternalLink } from "lucide-react";
+import { PageLayout } from "@/components/PageLayout";
+import { PlayerAvatar } from "@/components/PlayerAvatar";
+import { WatchlistMenu } from "@/components/WatchlistMenu";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { PlayerSplit, PlayerSplitResponse, Timespan } from "@/lib/api";
+import { loadPlayerSplit } from "@/lib/playerSplits";
+import { STAT_COLUMNS, formatStat } from "@/lib/playerStats";
+import { AGENTS, MAPS, TIMESPANS, TIMESPAN_LABELS } from "@/lib/statsQuery";
+import { cn } from "@/lib/utils";
+
+interface PlayerIdentity {
+  player: string | null;
+  team: string | null;
+}
+
+interface SplitDef {
+  label: string;
+  split: PlayerSplit;
+}
+
+/** Identity looked up from the splits; `identity` is null when no timespan lists the player. */
+interface IdentityLookup {
+  playerId: number;
+  identity: PlayerIdentity | null;
+}
+
+const GRID_TEMPLATE = ["minmax(7rem, 1fr)", ...STAT_COLUMNS.map((c) => c.width)].join(" ");
+
+const TIMESPAN_SPLITS: SplitDef[] = TIMESPANS.map((t) => ({ label: TIMESPAN_LABELS[t], split: { timespan: t } }));
+
+const PlayerProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const location = useLocation();
+  const playerId = Number(id);
+
+  const [splitTimespan, setSplitTimespan] = useState<Timespan>("60");
+  const [lookup, setLookup] = useState<IdentityLookup | null>(null);
+
+  // The timespan splits are shared with the default tab's rows, so this
+  // costs no extra requests
+  useEffect(() => {
+    if (!Number.isInteger(playerId) || playerId <= 0) return;
+    let cancelled = false;
+    Promise.allSettled(TIMESPAN_SPLITS.map((s) => loadPlayerSplit(playerId, s.split))).then((results) => {
+      if (cancelled) return;
+      const found = results.find(
+        (r): r is PromiseFulfilledResult<PlayerSplitResponse> => r.status === "fulfilled" && r.value.player != null
+      );
+      setLookup({ playerId, identity: found ? { player: found.value.player, team: found.value.team } : null });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId]);
+
+  const mapSplits = useMemo<SplitDef[]>(
+    () => MAPS.map((map) => ({ label: map, split: { timespan: splitTimespan, map } })),
+    [splitTimespan]
+  );
+  const agentSplits = useMemo<SplitDef[]>(
+    () => AGENTS.map((agent) => ({ label: agent, split: { timespan: splitTimespan, agent } })),
+    [splitTimespan]
+  );
+
+  // Result rows pass name/team along so the header renders immediately
+  const passed = location.state as PlayerIdentity | null;
+  const resolved = lookup?.playerId === playerId ? lookup : null;
+  const identity: PlayerIdentity = passed?.player ? passed : (resolved?.identity ?? { player: null, team: null });
+  const notFound = !passed?.player && resolved != null && resolved.identity == null;
+
+  if (!Number.isInteger(playerId) || playerId <= 0) {
+    return (
+      <PageLayout>
+        <main className="px-6 pt-12 pb-20">
+          <div className="max-w-4xl mx-auto text-center text-muted-foreground">
+            Unknown player.{" "}
+            <Link to="/" className="text-primary underline hover:text-primary/90">
+              Return to search
+            </Link>
+          </div>
+        </main>
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout>
+      <main className="px-6 pt-8 md:pt-12 pb-20">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <button
+            type="button"
+            onClick={() => window.history.back()}
+            className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </button>
+
+          {/* Player header */}
+          <div className="animate-fade-up flex items-center gap-5 bg-gradient-to-r from-primary/5 to-transparent border border-primary/20 rounded-2xl p-6">
+            <PlayerAvatar playerId={playerId} name={identity.player ?? "Player"} className="w-20 h-20" />
+            <div className="min-w-0 flex-1">
+              {identity.player ? (
+                <h1 className="text-3xl md:text-4xl font-black text-foreground tracking-tight truncate">
+                  {identity.player}
+                </h1>
+              ) : notFound ? (
+                <>
+                  <h1 className="text-3xl md:text-4xl font-black text-foreground tracking-tight">Player #{playerId}</h1>
+                  <p className="text-muted-foreground">No stats found for this player in any timespan.</p>
+                </>
+              ) : (
+                <Skeleton className="h-9 w-48" />
+              )}
+              {identity.team && <p className="text-muted-foreground truncate">{identity.team}</p>}
+            </div>
+            {identity.player && (
+              <WatchlistMenu player={{ player_id: playerId, player: identity.player, team: identity.team }} />
+            )}
+            <a
+              href={`https://www.vlr.gg/player/${playerId}`}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors"
+            >
+              vlr.gg
+              <ExternalLink className="w-3.5 h-3.5" />
+            </a>
+          </div>
+
+          {/* Splits */}
+          <Tabs defaultValue="timespan" className="animate-fade-up space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <TabsList>
+                <TabsTrigger value="timespan">By Timespan</TabsTrigger>
+                <TabsTrigger value="map">By Map</TabsTrigger>
+                <TabsTrigger value="agent">By Agent</TabsTrigger>
+              </TabsList>
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                Map/agent splits:
+                <select
+                  value={splitTimespan}
+                  onChange={(e) => setSplitTimespan(e.target.value as Timespan)}
+                  className="bg-secondary text-secondary-foreground rounded-lg px-2 py-1 font-medium focus:outline-none"
+                >
+                  {TIMESPANS.map((t) => (
+                    <option key={t} value={t}>
+                      {TIMESPAN_LABELS[t]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {/* Inactive tabs unmount, so map/agent splits are only scraped when opened */}
+            <TabsContent value="timespan">
+              <SplitTable splits={TIMESPAN_SPLITS} playerId={playerId} />
+            </TabsContent>
+            <TabsContent value="map">
+              <SplitTable splits={mapSplits} playerId={playerId} />
+            </TabsContent>
+            <TabsContent value="agent">
+              <SplitTable splits={agentSplits} playerId={playerId} />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </main>
+    </PageLayout>
+  );
+};
+
+interface SplitTableProps {
+  splits: SplitDef[];
+  playerId: number;
+}
+
+function SplitTable({ splits, playerId }: SplitTableProps) {
+  return (
+    <div className="bg-card border border-border rounded-2xl overflow-x-auto">
+      <div
+        className="grid gap-2 px-6 py-3 border-b border-border text-xs font-semibold text-muted-foreground uppercase tracking-wider"
+        style={{ gridTemplateColumns: GRID_TEMPLATE }}
+      >
+        <span>Split</span>
+        {STAT_COLUMNS.map((c) => (
+          <span key={c.key} className="text-right">
+            {c.label}
+          </span>
+        ))}
+      </div>
+      {splits.map((s) => (
+        <SplitRow key={`${s.label}-${s.split.timespan}`} label={s.label} split={s.split} playerId={playerId} />
+      ))}
+    </div>
+  );
+}
+
+interface SplitRowProps {
+  label: string;
+  /** Must be stable between renders; a new object refetches. */
+  split: PlayerSplit;
+  playerId: number;
+}
+
+function SplitRow({ label, split, playerId }: SplitRowProps) {
+  const [data, setData] = useState<PlayerSplitResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setData(null);
+    setError(null);
+    loadPlayerSplit(playerId, split)
+      .then((resp) => {
+        if (!cancelled) setData(resp);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId, split]);
+
+  const noData = data && !data.stats;
+
+  return (
+    <div
+      className="grid gap-2 px-6 py-3 border-b border-border/50 last:border-b-0 hover:bg-secondary/30 transition-colors"
+      style={{ gridTemplateColumns: GRID_TEMPLATE }}
+    >
+      <span className={cn("font-semibold self-center truncate", noData ? "text-muted-foreground" : "text-foreground")}>
+        {label}
+      </span>
+      {error || noData ? (
+        <span
+          className="text-sm text-muted-foreground self-center"
+          style={{ gridColumn: `span ${STAT_COLUMNS.length}` }}
+          title={error ?? undefined}
+        >
+          {error ? "Couldn't load this split" : "Not enough rounds"}
+        </span>
+      ) : (
+        STAT_COLUMNS.map((c) =>
+          data ? (
+            <span
+              key={c.key}
+              className={cn("text-right self-center", c.muted ? "text-muted-foreground" : "text-foreground")}
+            >
+              {formatStat(c, data.stats[c.key])}
+            </span>
+          ) : (
+            <Skeleton key={c.key} className="h-4 w-10 ml-auto self-center" />
+          )
+        )
+      )}
+    </div>
+  );
+}
+
+export default PlayerProfile;
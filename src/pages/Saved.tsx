@@ -0,0 +1,353 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Check, ListPlus, Pencil, Play, Plus, Trash2, X } from "lucide-react";
+import { PageLayout } from "@/components/PageLayout";
+import { PlayerAvatar } from "@/components/PlayerAvatar";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { savedQueryText, useSaved, type SavedQuery, type WatchedPlayer, type Watchlist } from "@/hooks/use-saved";
+import { useRunSearch } from "@/hooks/use-run-search";
+import { describeQuery } from "@/lib/queryParser";
+import { cn } from "@/lib/utils";
+
+const Saved = () => {
+  const {
+    queries,
+    watchlists,
+    renameQuery,
+    removeQuery,
+    createWatchlist,
+    renameWatchlist,
+    removeWatchlist,
+    toggleQueryInWatchlist,
+    togglePlayerInWatchlist,
+  } = useSaved();
+  const runSearch = useRunSearch();
+  const [newListName, setNewListName] = useState("");
+
+  const run = (saved: SavedQuery) => runSearch(savedQueryText(saved), saved.query);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newListName.trim()) return;
+    createWatchlist(newListName);
+    setNewListName("");
+  };
+
+  return (
+    <PageLayout>
+      <main className="px-6 pt-8 md:pt-12 pb-20">
+        <div className="max-w-4xl mx-auto space-y-10">
+          <h1 className="text-3xl md:text-4xl font-black text-foreground tracking-tight">Saved</h1>
+
+          {/* Watchlists */}
+          <section className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-bold text-foreground tracking-tight">Watchlists</h2>
+              <form onSubmit={handleCreate} className="flex items-center gap-2">
+                <Input
+                  value={newListName}
+                  onChange={(e) => setNewListName(e.target.value)}
+                  placeholder="New watchlist name"
+                  maxLength={60}
+                  className="h-9 w-56"
+                />
+                <button
+                  type="submit"
+                  disabled={!newListName.trim()}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 rounded-lg transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Create
+                </button>
+              </form>
+            </div>
+
+            {watchlists.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Group saved queries and players you follow. Add players from their profile page.
+              </p>
+            )}
+
+            {watchlists.map((w) => (
+              <WatchlistCard
+                key={w.id}
+                watchlist={w}
+                queries={queries}
+                onRun={run}
+                onRename={(name) => renameWatchlist(w.id, name)}
+                onRemove={() => removeWatchlist(w.id)}
+                onToggleQuery={(queryId) => toggleQueryInWatchlist(w.id, queryId)}
+                onRemovePlayer={(player) => togglePlayerInWatchlist(w.id, player)}
+              />
+            ))}
+          </section>
+
+          {/* Saved queries */}
+          <section className="space-y-4">
+            <h2 className="text-lg font-bold text-foreground tracking-tight">Saved queries</h2>
+            {queries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Use the Save button on any result to keep a query here.{" "}
+                <Link to="/" className="text-primary underline hover:text-primary/90">
+                  Start a search
+                </Link>
+              </p>
+            ) : (
+              <div className="bg-card border border-border rounded-2xl">
+                {queries.map((q) => (
+                  <SavedQueryRow
+                    key={q.id}
+                    saved={q}
+                    onRun={() => run(q)}
+                    onRename={(name) => renameQuery(q.id, name)}
+                    onRemove={() => removeQuery(q.id)}
+                    actions={
+                      watchlists.length > 0 && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger
+                            aria-label={`Add ${q.name} to a watchlist`}
+                            className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+                          >
+                            <ListPlus className="w-4 h-4" />
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Watchlists</DropdownMenuLabel>
+                            <DropdownMenuSeparator />
+                            {watchlists.map((w) => (
+                              <DropdownMenuCheckboxItem
+                                key={w.id}
+                                checked={w.queryIds.includes(q.id)}
+                                onCheckedChange={() => toggleQueryInWatchlist(w.id, q.id)}
+                                onSelect={(e) => e.preventDefault()}
+                              >
+                                {w.name}
+                              </DropdownMenuCheckboxItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )
+                    }
+                  />
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      </main>
+    </PageLayout>
+  );
+};
+
+interface WatchlistCardProps {
+  watchlist: Watchlist;
+  queries: SavedQuery[];
+  onRun: (saved: SavedQuery) => void;
+  onRename: (name: string) => void;
+  onRemove: () => void;
+  onToggleQuery: (queryId: string) => void;
+  onRemovePlayer: (player: WatchedPlayer) => void;
+}
+
+function WatchlistCard({
+  watchlist,
+  queries,
+  onRun,
+  onRename,
+  onRemove,
+  onToggleQuery,
+  onRemovePlayer,
+}: WatchlistCardProps) {
+  const listQueries = queries.filter((q) => watchlist.queryIds.includes(q.id));
+  const isEmpty = listQueries.length === 0 && watchlist.players.length === 0;
+
+  return (
+    <div className="animate-fade-up bg-card border border-border rounded-2xl">
+      <div className="flex items-center justify-between gap-3 px-6 py-4 border-b border-border">
+        <EditableName name={watchlist.name} onRename={onRename} className="font-bold text-foreground" />
+        <div className="flex items-center gap-1">
+          {queries.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors">
+                <Plus className="w-4 h-4" />
+                Queries
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Saved queries</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {queries.map((q) => (
+                  <DropdownMenuCheckboxItem
+                    key={q.id}
+                    checked={watchlist.queryIds.includes(q.id)}
+                    onCheckedChange={() => onToggleQuery(q.id)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {q.name}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          <button
+            type="button"
+            onClick={onRemove}
+            aria-label={`Delete watchlist ${watchlist.name}`}
+            className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-secondary transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {isEmpty && <p className="px-6 py-4 text-sm text-muted-foreground">Nothing in this watchlist yet.</p>}
+
+      {watchlist.players.length > 0 && (
+        <div className="flex flex-wrap gap-2 px-6 py-4 border-b border-border/50 last:border-b-0">
+          {watchlist.players.map((p) => (
+            <div key={p.player_id} className="flex items-center gap-1.5 bg-secondary rounded-full pl-1 pr-1.5 py-1">
+              <PlayerAvatar playerId={p.player_id} name={p.player} className="w-6 h-6" />
+              <Link
+                to={`/player/${p.player_id}`}
+                state={{ player: p.player, team: p.team }}
+                className="text-sm font-semibold text-foreground max-w-[8rem] truncate hover:text-primary transition-colors"
+              >
+                {p.player}
+              </Link>
+              <button
+                type="button"
+                onClick={() => onRemovePlayer(p)}
+                aria-label={`Remove ${p.player} from ${watchlist.name}`}
+                className="text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {listQueries.map((q) => (
+        <SavedQueryRow
+          key={q.id}
+          saved={q}
+          onRun={() => onRun(q)}
+          actions={
+            <button
+              type="button"
+              onClick={() => onToggleQuery(q.id)}
+              aria-label={`Remove ${q.name} from ${watchlist.name}`}
+              className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          }
+        />
+      ))}
+    </div>
+  );
+}
+
+interface SavedQueryRowProps {
+  saved: SavedQuery;
+  onRun: () => void;
+  onRename?: (name: string) => void;
+  onRemove?: () => void;
+  actions?: React.ReactNode;
+}
+
+function SavedQueryRow({ saved, onRun, onRename, onRemove, actions }: SavedQueryRowProps) {
+  return (
+    <div className="flex items-center gap-3 px-6 py-3 border-b border-border/50 last:border-b-0 hover:bg-secondary/30 transition-colors">
+      <button
+        type="button"
+        onClick={onRun}
+        aria-label={`Run ${saved.name}`}
+        className="p-2 rounded-full bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+      >
+        <Play className="w-3.5 h-3.5" />
+      </button>
+      <div className="min-w-0 flex-1">
+        {onRename ? (
+          <EditableName name={saved.name} onRename={onRename} className="font-semibold text-foreground" />
+        ) : (
+          <span className="block font-semibold text-foreground truncate">{saved.name}</span>
+        )}
+        <span className="block text-xs text-muted-foreground truncate">{describeQuery(saved.query).join(" · ")}</span>
+      </div>
+      {actions}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label={`Delete ${saved.name}`}
+          className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-secondary transition-colors"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface EditableNameProps {
+  name: string;
+  onRename: (name: string) => void;
+  className?: string;
+}
+
+function EditableName({ name, onRename, className }: EditableNameProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft?.trim()) onRename(draft);
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          commit();
+        }}
+        className="flex items-center gap-1"
+      >
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => e.key === "Escape" && setDraft(null)}
+          autoFocus
+          maxLength={80}
+          className="h-8"
+        />
+        <button type="submit" aria-label="Save name" className="p-1 text-muted-foreground hover:text-foreground">
+          <Check className="w-4 h-4" />
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <span className="group flex items-center gap-1.5 min-w-0">
+      <span className={cn("truncate", className)}>{name}</span>
+      <button
+        type="button"
+        onClick={() => setDraft(name)}
+        aria-label={`Rename ${name}`}
+        className="opacity-0 group-hover:opacity-100 focus:opacity-100 p-0.5 text-muted-foreground hover:text-foreground transition-opacity"
+      >
+        <Pencil className="w-3.5 h-3.5" />
+      </button>
+    </span>
+  );
+}
+
+export default Saved;
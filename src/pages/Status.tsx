@@ -0,0 +1,125 @@
+import { Loader2, RotateCw, Trash2 } from "lucide-react";
+import { PageLayout } from "@/components/PageLayout";
+import { ServiceStateBadge } from "@/components/ServiceStatus";
+import { useNow } from "@/hooks/use-now";
+import { useServiceStatus, type StatusCheck } from "@/hooks/use-service-status";
+import { formatRelativeTime } from "@/lib/utils";
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+/** One-line outcome of a check, e.g. "20 rows · top ACS aspas (281.4)". */
+function describeCheck(check: StatusCheck): string {
+  const { scraper } = check;
+  if (!scraper) return "No response from the API";
+  if (!scraper.ok) return scraper.message ?? "Test scrape failed";
+  const sample = scraper.sample_player
+    ? ` · top ACS ${scraper.sample_player}${scraper.sample_acs != null ? ` (${scraper.sample_acs})` : ""}`
+    : "";
+  return `${scraper.rows_returned ?? 0} rows${sample}`;
+}
+
+const Detail = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="space-y-1">
+    <dt className="text-xs uppercase tracking-wider text-muted-foreground">{label}</dt>
+    <dd className="text-sm font-medium text-foreground break-words">{value}</dd>
+  </div>
+);
+
+const Status = () => {
+  const { latest, history, checking, checkNow, clearHistory } = useServiceStatus();
+  const now = useNow();
+  const okCount = history.filter((c) => c.state === "ok").length;
+
+  return (
+    <PageLayout>
+      <main className="px-6 pt-8 md:pt-12 pb-20">
+        <div className="max-w-4xl mx-auto space-y-10">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div className="space-y-2">
+              <h1 className="text-3xl md:text-4xl font-black text-foreground tracking-tight">Status</h1>
+              <p className="text-muted-foreground">
+                Health of the ValMuse API and its VLR.gg scraper, checked with a known-good test query.
+              </p>
+            </div>
+            <button
+              onClick={checkNow}
+              disabled={checking}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg transition-colors disabled:opacity-50"
+            >
+              {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCw className="w-4 h-4" />}
+              Check now
+            </button>
+          </div>
+
+          {/* Latest check */}
+          <section className="bg-card border border-border rounded-2xl p-6 space-y-6">
+            <ServiceStateBadge state={latest?.state ?? null} className="text-lg font-semibold text-foreground" />
+            {latest ? (
+              <dl className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                <Detail label="Checked" value={`${formatTime(latest.checkedAt)} (${formatRelativeTime(latest.checkedAt, now)})`} />
+                <Detail label="API" value={latest.state === "offline" ? "Unreachable" : "Up"} />
+                <Detail label="Rows returned" value={latest.scraper?.rows_returned ?? "—"} />
+                <Detail
+                  label="Sample player"
+                  value={
+                    latest.scraper?.sample_player
+                      ? `${latest.scraper.sample_player}${latest.scraper.sample_acs != null ? ` · ${latest.scraper.sample_acs} ACS` : ""}`
+                      : "—"
+                  }
+                />
+                {latest.scraper?.message && (
+                  <div className="col-span-2 md:col-span-4">
+                    <Detail label="Error" value={latest.scraper.message} />
+                  </div>
+                )}
+              </dl>
+            ) : (
+              <p className="text-sm text-muted-foreground">{checking ? "Running the first check…" : "No checks yet."}</p>
+            )}
+          </section>
+
+          {/* History */}
+          <section className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-bold text-foreground tracking-tight">
+                Recent checks
+                {history.length > 0 && (
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    {okCount}/{history.length} healthy
+                  </span>
+                )}
+              </h2>
+              {history.length > 0 && (
+                <button
+                  onClick={clearHistory}
+                  className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Clear
+                </button>
+              )}
+            </div>
+            {history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Checks run every few minutes while ValMuse is open.</p>
+            ) : (
+              <ul className="bg-card border border-border rounded-2xl divide-y divide-border">
+                {history.map((check) => (
+                  <li key={check.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 px-4 py-3 text-sm">
+                    <ServiceStateBadge state={check.state} className="w-44 shrink-0 font-medium text-foreground" />
+                    <span className="flex-1 min-w-0 truncate text-muted-foreground" title={describeCheck(check)}>
+                      {describeCheck(check)}
+                    </span>
+                    <span className="text-muted-foreground tabular-nums">{formatTime(check.checkedAt)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </main>
+    </PageLayout>
+  );
+};
+
+export default Status;